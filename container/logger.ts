@@ -0,0 +1,169 @@
+/**
+ * Structured logger shared by the Worker and the container
+ *
+ * Every line is a single JSON object: { ts, level, component, msg, ...context, ...fields }.
+ * Request context (request id, trace id, run id) set with withLogContext is added to
+ * every line logged while handling that request, including from nested async calls.
+ *
+ * Field values are redacted before they are written: secrets (tokens, keys, signatures)
+ * are replaced outright, and prompt/response content is reduced to its length.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+let minLevel: LogLevel = "info";
+
+/**
+ * Set the lowest level that is written; unknown values are ignored
+ */
+export function setLogLevel(level: string | undefined) {
+  if (level && level in LEVELS) {
+    minLevel = level as LogLevel;
+  }
+}
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run fn with fields added to every line it logs
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+// Keys whose values are never logged
+const SECRET_KEY = /token$|secret|password|api[-_]?key|authorization|cookie|credential|signature/i;
+// Keys holding user or model content, logged as their length only
+const CONTENT_KEY = /^(prompt|query|response|text|stdout|stderr|transcript|content|input|updatedInput|systemPrompt|appendSystemPrompt|frameworkContext|body)$/i;
+// Credentials that may turn up inside other strings (error messages, URLs)
+const SECRET_VALUE = /sk-ant-[A-Za-z0-9_-]+|cak_[0-9a-f]{16,}|cbs_[0-9a-f]{16,}|cct_[0-9a-f]{16,}|Bearer\s+[A-Za-z0-9._~+/=-]+/g;
+const MAX_STRING_LENGTH = 1000;
+const MAX_DEPTH = 5;
+
+/**
+ * Copy a value with secrets and content removed
+ */
+export function redact(value: unknown, key = "", depth = 0): unknown {
+  if (key && SECRET_KEY.test(key)) {
+    return value === undefined || value === null || value === "" ? value : "[redacted]";
+  }
+  if (key && CONTENT_KEY.test(key) && value !== undefined && value !== null) {
+    return typeof value === "string" ? `[${value.length} chars]` : "[redacted]";
+  }
+
+  if (typeof value === "string") {
+    const scrubbed = value.replace(SECRET_VALUE, "[redacted]");
+    return scrubbed.length > MAX_STRING_LENGTH ? `${scrubbed.slice(0, MAX_STRING_LENGTH)}...` : scrubbed;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message) };
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, "", depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1)]));
+}
+
+function write(level: LogLevel, component: string, msg: string, fields: LogFields) {
+  if (LEVELS[level] < LEVELS[minLevel]) {
+    return;
+  }
+
+  const line = JSON.stringify({
+    ts: new Date().toISOString(),
+    level,
+    component,
+    msg,
+    ...(redact({ ...logContext.getStore(), ...fields }) as LogFields)
+  });
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function createLogger(component: string, base: LogFields = {}): Logger {
+  return {
+    debug: (msg, fields = {}) => write("debug", component, msg, { ...base, ...fields }),
+    info: (msg, fields = {}) => write("info", component, msg, { ...base, ...fields }),
+    warn: (msg, fields = {}) => write("warn", component, msg, { ...base, ...fields }),
+    error: (msg, fields = {}) => write("error", component, msg, { ...base, ...fields }),
+    child: (fields) => createLogger(component, { ...base, ...fields })
+  };
+}
+
+/**
+ * W3C trace context plus the request id it travels with
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  sampled: boolean;
+  requestId: string;
+}
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+function randomHex(bytes: number): string {
+  return [...crypto.getRandomValues(new Uint8Array(bytes))].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Continue the caller's trace (traceparent header) with a new span, or start a new trace
+ * A valid x-request-id is kept; otherwise one is generated
+ */
+export function startTrace(traceparent?: string | null, requestId?: string | null): TraceContext {
+  const parent = traceparent?.trim().toLowerCase().match(TRACEPARENT);
+  const validParent = parent && !/^0+$/.test(parent[1]) && !/^0+$/.test(parent[2]);
+
+  return {
+    traceId: validParent ? parent[1] : randomHex(16),
+    spanId: randomHex(8),
+    parentSpanId: validParent ? parent[2] : null,
+    sampled: validParent ? (parseInt(parent[3], 16) & 1) === 1 : true,
+    requestId: requestId && REQUEST_ID.test(requestId) ? requestId : crypto.randomUUID()
+  };
+}
+
+export function formatTraceparent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? "01" : "00"}`;
+}
+
+/**
+ * Headers that carry a trace to the next hop (or back to the client)
+ */
+export function traceHeaders(trace: TraceContext): Record<string, string> {
+  return { traceparent: formatTraceparent(trace), "x-request-id": trace.requestId };
+}
+
+/**
+ * Fields identifying a trace in log lines
+ */
+export function traceFields(trace: TraceContext): LogFields {
+  return { requestId: trace.requestId, traceId: trace.traceId, spanId: trace.spanId };
+}
@@ -1,11 +1,98 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcess } from "node:child_process";
 import http from "node:http";
 import fs from "node:fs";
 import path from "path";
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { pipeline } from "node:stream/promises";
+import { createLogger, setLogLevel, withLogContext, startTrace, traceHeaders, traceFields } from "./logger.js";
 
 const PORT = 8080;
+const log = createLogger("container");
+setLogLevel(process.env.LOG_LEVEL);
 const CREDENTIALS_PATH = path.join(process.env.HOME || "/home/node", ".claude", ".credentials.json");
 const FRAMEWORK_CONTEXT_PATH = path.join("/app", "framework-context.txt");
+const CLAUDE_PROJECTS_DIR = path.join(process.env.HOME || "/home/node", ".claude", "projects");
+// Per-account workspace, restored from and snapshotted to R2 by the Worker
+const WORKSPACE_DIR = "/app/workspace";
+const RUN_CWD = WORKSPACE_DIR;
+// Files uploaded with a request; inside the cwd so the agent can read them, but never synced
+const ATTACHMENTS_DIR = path.join(WORKSPACE_DIR, ".attachments");
+const ATTACHMENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Token the Durable Object minted for this container instance; the Worker sends it on every request
+// It is dropped from the environment so CLI processes (and the agent's shell) never inherit it
+const AUTH_TOKEN = process.env.CONTAINER_AUTH_TOKEN || "";
+const AUTH_TOKEN_HEADER = "x-container-token";
+delete process.env.CONTAINER_AUTH_TOKEN;
+
+/**
+ * CLI processes currently running, keyed by the run id the Worker assigned
+ */
+const activeRuns = new Map<string, ChildProcess>();
+// Runs being cancelled, so their exit is reported as cancelled rather than failed
+const cancelledRuns = new Set<string>();
+// How long an interrupted CLI gets to exit before it is killed
+const CANCEL_GRACE_MS = 5000;
+
+/**
+ * Raised when a run's CLI process was stopped by cancelRun
+ */
+class RunCancelledError extends Error {
+  constructor(readonly runId: string) {
+    super(`Run '${runId}' was cancelled`);
+    this.name = "RunCancelledError";
+  }
+}
+
+/**
+ * Raised when the CLI exits with a non-zero code
+ */
+class CliExitError extends Error {
+  constructor(readonly exitCode: number | null, message: string) {
+    super(message);
+    this.name = "CliExitError";
+  }
+}
+
+/**
+ * Raised when the CLI is killed for running past the execution timeout
+ */
+class CliTimeoutError extends Error {
+  constructor(elapsedMs: number) {
+    super(`Claude CLI execution timed out after ${elapsedMs}ms`);
+    this.name = "CliTimeoutError";
+  }
+}
+
+/**
+ * Interrupt a run's CLI process: SIGINT so it can stop cleanly, then SIGKILL if it is still running after the grace period
+ * Returns false if the run is not active
+ */
+function cancelRun(runId: string, reason: string): boolean {
+  const claude = activeRuns.get(runId);
+  if (!claude) {
+    return false;
+  }
+  if (cancelledRuns.has(runId)) {
+    return true;
+  }
+
+  cancelledRuns.add(runId);
+  log.info("Cancelling run", { runId, pid: claude.pid, reason });
+  claude.kill("SIGINT");
+
+  const killTimer = setTimeout(() => {
+    if (claude.exitCode === null && claude.signalCode === null) {
+      log.warn("Run ignored SIGINT, killing it", { runId, pid: claude.pid });
+      claude.kill("SIGKILL");
+    }
+  }, CANCEL_GRACE_MS);
+  claude.once("close", () => clearTimeout(killTimer));
+  return true;
+}
 
 /**
  * Timing-safe string comparison to prevent timing attacks
@@ -22,27 +109,19 @@ function timingSafeEqual(a: string, b: string): boolean {
 }
 
 /**
- * Validate API key from request headers
- * Returns true if valid, false if invalid
+ * Check the request carries this instance's token
+ * Without a configured token every request is rejected: there is no unauthenticated mode
  */
-function validateApiKey(req: http.IncomingMessage): boolean {
-  const apiKey = process.env.WORKER_API_KEY;
+function isAuthorized(req: http.IncomingMessage): boolean {
+  const providedToken = req.headers[AUTH_TOKEN_HEADER] as string | undefined;
 
-  // If no API key configured, allow request (development mode)
-  if (!apiKey) {
-    console.log('[Auth] WARNING: WORKER_API_KEY not set - running without authentication');
-    return true;
-  }
-
-  const providedKey = req.headers['x-api-key'] as string | undefined;
-
-  if (!providedKey) {
-    console.log('[Auth] Missing API key in request');
+  if (!providedToken) {
+    log.warn("Missing container token in request", { path: req.url });
     return false;
   }
 
-  if (!timingSafeEqual(providedKey, apiKey)) {
-    console.log('[Auth] Invalid API key attempt');
+  if (!AUTH_TOKEN || !timingSafeEqual(providedToken, AUTH_TOKEN)) {
+    log.warn("Invalid container token", { path: req.url });
     return false;
   }
 
@@ -57,14 +136,14 @@ function loadFrameworkContext(): string {
   try {
     if (fs.existsSync(FRAMEWORK_CONTEXT_PATH)) {
       const context = fs.readFileSync(FRAMEWORK_CONTEXT_PATH, 'utf-8');
-      console.log(`[Framework] Loaded framework context: ${context.length} chars (~${Math.ceil(context.length / 4)} tokens)`);
+      log.info("Loaded framework context", { chars: context.length, estimatedTokens: Math.ceil(context.length / 4) });
       return context;
     } else {
-      console.warn(`[Framework] Framework context not found at ${FRAMEWORK_CONTEXT_PATH} - running without framework`);
+      log.warn("Framework context not found, running without framework", { path: FRAMEWORK_CONTEXT_PATH });
       return "";
     }
   } catch (error) {
-    console.error("[Framework] Failed to load framework context:", error);
+    log.error("Failed to load framework context", { error });
     return "";
   }
 }
@@ -72,14 +151,15 @@ function loadFrameworkContext(): string {
 /**
  * Setup OAuth credentials from environment variables
  * This enables Max subscription authentication instead of API key billing
+ * Only the access token is written: refresh tokens are single use, and the Worker's CredentialStore
+ * refreshes and pushes new tokens, so a CLI refreshing on its own would invalidate the store's copy
  */
 function setupCredentials(): boolean {
   const accessToken = process.env.CLAUDE_ACCESS_TOKEN;
-  const refreshToken = process.env.CLAUDE_REFRESH_TOKEN;
   const expiresAt = process.env.CLAUDE_EXPIRES_AT;
 
-  if (!accessToken || !refreshToken) {
-    console.log("[Auth] No OAuth credentials provided, falling back to API key");
+  if (!accessToken) {
+    log.info("No OAuth credentials provided, falling back to API key");
     return false;
   }
 
@@ -96,7 +176,6 @@ function setupCredentials(): boolean {
   const credentials = {
     claudeAiOauth: {
       accessToken,
-      refreshToken,
       expiresAt: expiresAtMs,
       scopes: ["user:inference", "user:profile", "user:sessions:claude_code"],
       subscriptionType: "max",
@@ -110,140 +189,163 @@ function setupCredentials(): boolean {
       fs.mkdirSync(credDir, { recursive: true });
     }
     fs.writeFileSync(CREDENTIALS_PATH, JSON.stringify(credentials, null, 2));
-    console.log("[Auth] OAuth credentials configured for Max subscription");
-    console.log("[Auth] Credentials written to:", CREDENTIALS_PATH);
-    console.log("[Auth] Token expires:", new Date(expiresAtMs).toISOString());
+    log.info("OAuth credentials configured for Max subscription", {
+      path: CREDENTIALS_PATH,
+      expiresAt: new Date(expiresAtMs).toISOString()
+    });
     return true;
   } catch (error) {
-    console.error("[Auth] Failed to write credentials:", error);
+    log.error("Failed to write credentials", { error });
     return false;
   }
 }
 
 /**
- * Execute Claude CLI with --print flag for non-interactive output
+ * Build the CLI environment - respect CLAUDE_USE_SUBSCRIPTION from parent
  */
-async function executeClaudeCLI(prompt: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const args = [
-      "--print",
-      "--output-format", "text",
-      prompt
-    ];
-
-    // Build environment - respect CLAUDE_USE_SUBSCRIPTION from parent
-    const env: NodeJS.ProcessEnv = {
-      ...process.env,
-      CLAUDE_BYPASS_BALANCE_CHECK: "true",
-    };
+function buildClaudeEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    CLAUDE_BYPASS_BALANCE_CHECK: "true",
+  };
+  // Refreshing is the Worker's job (see setupCredentials), so a refresh token never reaches the CLI
+  delete env.CLAUDE_REFRESH_TOKEN;
 
-    // Determine auth mode based on available credentials
-    const useSubscription = process.env.CLAUDE_USE_SUBSCRIPTION === "true";
-    const hasOAuth = !!(process.env.CLAUDE_ACCESS_TOKEN && process.env.CLAUDE_REFRESH_TOKEN);
-    const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
-
-    if (useSubscription && hasOAuth) {
-      console.log("[CLI] Using subscription auth (OAuth)");
-      env.CLAUDE_USE_SUBSCRIPTION = "true";
-    } else if (hasApiKey) {
-      console.log("[CLI] Using API key auth (fallback)");
-      env.CLAUDE_USE_SUBSCRIPTION = "false";
-      // Remove OAuth tokens to avoid conflicts
-      delete env.CLAUDE_ACCESS_TOKEN;
-      delete env.CLAUDE_REFRESH_TOKEN;
-      delete env.CLAUDE_EXPIRES_AT;
-    } else {
-      console.log("[CLI] WARNING: No authentication credentials available");
-      env.CLAUDE_USE_SUBSCRIPTION = "false";
-    }
+  // Determine auth mode based on available credentials
+  const useSubscription = process.env.CLAUDE_USE_SUBSCRIPTION === "true";
+  const hasOAuth = !!process.env.CLAUDE_ACCESS_TOKEN;
+  const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
 
-    console.log("[CLI] Executing claude with selected auth mode");
-    console.log("[CLI] Args:", args);
-    console.log("[CLI] Credentials path:", CREDENTIALS_PATH);
-    console.log("[CLI] HOME:", env.HOME);
+  if (useSubscription && hasOAuth) {
+    log.debug("Using subscription auth (OAuth)");
+    env.CLAUDE_USE_SUBSCRIPTION = "true";
+  } else if (hasApiKey) {
+    log.debug("Using API key auth (fallback)");
+    env.CLAUDE_USE_SUBSCRIPTION = "false";
+    // Remove OAuth tokens to avoid conflicts
+    delete env.CLAUDE_ACCESS_TOKEN;
+    delete env.CLAUDE_EXPIRES_AT;
+  } else {
+    log.warn("No authentication credentials available");
+    env.CLAUDE_USE_SUBSCRIPTION = "false";
+  }
+
+  return env;
+}
+
+/**
+ * Spawn Claude CLI with the given args and collect its output
+ * onLine receives each complete stdout line as it arrives (used for stream-json); stdout is then
+ * not collected, and the promise resolves with an empty string
+ * runId registers the process in activeRuns so it can be cancelled
+ * The process is killed once it has run for timeoutMs (see cliTimeoutMs)
+ */
+async function spawnClaudeCLI(args: string[], onLine?: (line: string) => void, runId?: string, timeoutMs = CLI_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const env = buildClaudeEnv();
+
+    // Only flags are logged; the prompt is the last argument
+    log.info("Executing claude", { runId, flags: args.slice(0, -1).filter(a => a.startsWith("-")), home: env.HOME });
 
     // Verify credentials file exists and is readable
     try {
       const credStats = fs.statSync(CREDENTIALS_PATH);
-      console.log("[CLI] Credentials file exists - size:", credStats.size, "bytes");
-      console.log("[CLI] Credentials file mode:", credStats.mode.toString(8));
+      log.debug("Credentials file found", { path: CREDENTIALS_PATH, size: credStats.size, mode: credStats.mode.toString(8) });
     } catch (e) {
-      console.error("[CLI] WARNING: Credentials file not accessible:", e instanceof Error ? e.message : String(e));
+      log.warn("Credentials file not accessible", { path: CREDENTIALS_PATH, error: e });
     }
 
     const claude = spawn("claude", args, {
       env,
-      cwd: "/app",
+      cwd: RUN_CWD,
       stdio: ["pipe", "pipe", "pipe"],
     });
 
     let stdout = "";
+    let stdoutBytes = 0;
     let stderr = "";
+    let pendingLine = "";
     let startTime = Date.now();
 
-    console.log("[CLI] Process spawned with PID:", claude.pid);
+    log.debug("Process spawned", { runId, pid: claude.pid });
+
+    if (runId) {
+      activeRuns.set(runId, claude);
+      claude.on("close", () => activeRuns.delete(runId));
+    }
 
     // Immediately close stdin - prevents CLI from waiting for input
     // This is critical for non-interactive --print mode
     if (claude.stdin) {
       claude.stdin.end();
-      console.log("[CLI] stdin closed immediately");
     }
 
     claude.stdout.on("data", (data) => {
-      const elapsed = Date.now() - startTime;
-      console.log(`[CLI] stdout data after ${elapsed}ms:`, data.toString().slice(0, 100));
-      stdout += data.toString();
+      stdoutBytes += data.length;
+
+      if (!onLine) {
+        stdout += data.toString();
+      } else {
+        pendingLine += data.toString();
+        const lines = pendingLine.split("\n");
+        pendingLine = lines.pop() || "";
+        for (const line of lines) {
+          if (line.trim()) onLine(line);
+        }
+      }
     });
 
     claude.stderr.on("data", (data) => {
-      const elapsed = Date.now() - startTime;
-      const dataStr = data.toString().trim();
-      console.log(`[CLI] stderr data after ${elapsed}ms:`, dataStr.slice(0, 200));
+      log.debug("CLI stderr output", { runId, bytes: data.length, elapsedMs: Date.now() - startTime });
       stderr += data.toString();
     });
 
     claude.on("error", (error) => {
-      const elapsed = Date.now() - startTime;
-      console.error(`[CLI] Error event after ${elapsed}ms:`, error.message);
+      log.error("Failed to spawn CLI", { runId, elapsedMs: Date.now() - startTime, error });
       reject(new Error(`Failed to spawn Claude CLI: ${error.message}`));
     });
 
     claude.on("close", (code) => {
-      const elapsed = Date.now() - startTime;
-      console.log(`[CLI] Process closed after ${elapsed}ms with code:`, code);
-      if (code === 0) {
+      log.info("CLI process closed", { runId, code, elapsedMs: Date.now() - startTime });
+      if (onLine && pendingLine.trim()) {
+        onLine(pendingLine);
+        pendingLine = "";
+      }
+      if (runId && cancelledRuns.delete(runId)) {
+        reject(new RunCancelledError(runId));
+      } else if (code === 0) {
         resolve(stdout.trim());
       } else {
-        console.error("[CLI] Exit code:", code);
-        console.error("[CLI] stderr:", stderr);
-        reject(new Error(`Claude CLI exited with code ${code}: ${stderr || stdout}`));
+        // stderr may echo the prompt, so only its size is logged
+        log.error("CLI exited with an error", { runId, code, stderrBytes: stderr.length });
+        reject(new CliExitError(code, `Claude CLI exited with code ${code}: ${stderr || stdout}`));
       }
     });
 
-    claude.on("exit", (code) => {
-      const elapsed = Date.now() - startTime;
-      console.log(`[CLI] Process exit event after ${elapsed}ms, code:`, code);
-    });
-
     // Log if no output within 10 seconds
     const warningTimer = setTimeout(() => {
-      const elapsed = Date.now() - startTime;
-      console.warn(`[CLI] WARNING: No output from Claude CLI after ${elapsed}ms - process may be hung`);
-      console.warn("[CLI] Current stdout:", stdout.length, "bytes");
-      console.warn("[CLI] Current stderr:", stderr.length, "bytes");
+      log.warn("No output from CLI yet, process may be hung", {
+        runId,
+        elapsedMs: Date.now() - startTime,
+        stdoutBytes,
+        stderrBytes: stderr.length
+      });
     }, 10000);
 
-    // Timeout after 5 minutes with cleanup
+    // Timeout with cleanup
     const timeoutHandle = setTimeout(() => {
       clearTimeout(warningTimer);
       const elapsed = Date.now() - startTime;
-      console.error(`[CLI] TIMEOUT after ${elapsed}ms - killing process PID ${claude.pid}`);
-      console.error("[CLI] Final stdout:", stdout.slice(0, 500));
-      console.error("[CLI] Final stderr:", stderr.slice(0, 500));
+      log.error("CLI timed out, killing it", {
+        runId,
+        pid: claude.pid,
+        elapsedMs: elapsed,
+        stdoutBytes,
+        stderrBytes: stderr.length
+      });
       claude.kill("SIGKILL");
-      reject(new Error(`Claude CLI execution timed out after ${elapsed}ms`));
-    }, 300000);
+      reject(new CliTimeoutError(elapsed));
+    }, timeoutMs);
 
     claude.on("close", () => {
       clearTimeout(timeoutHandle);
@@ -252,41 +354,774 @@ async function executeClaudeCLI(prompt: string): Promise<string> {
   });
 }
 
-const server = http.createServer(async (req, res) => {
+/**
+ * Per-request CLI options, already validated against the Worker's allowlists
+ */
+interface RunOptions {
+  model?: string;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+  maxTurns?: number;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  permissionMode?: string;
+  agents?: Record<string, { description: string; prompt: string; tools?: string[]; model?: string }>;
+  // Resolved by the Worker (secrets already substituted), in the --mcp-config format
+  mcpServers?: Record<string, Record<string, unknown>>;
+  callbacks?: ToolCallbacks;
+  approvals?: ApprovalOptions;
+}
+
+/**
+ * Tool registered by the caller, invoked by POSTing to its callbackUrl
+ */
+interface CallbackTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  callbackUrl: string;
+}
+
+/**
+ * Permission-prompt mode: tool uses that need permission wait for a reviewer, up to timeoutMs
+ * The Worker records and announces them by polling GET /runs/:id/approvals
+ */
+interface ApprovalOptions {
+  timeoutMs: number;
+}
+
+// CLIs are killed after 5 minutes; a run that waits on reviewers also gets its approval timeout
+const CLI_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Approvals auto-deny at least this long before the CLI timeout, so the run can still finish
+const APPROVAL_DEADLINE_MARGIN_MS = 30 * 1000;
+
+/**
+ * How long a run's CLI may take; the Worker derives its quota lease from the same formula
+ */
+function cliTimeoutMs(options: RunOptions = {}): number {
+  return CLI_TIMEOUT_MS + (options.approvals?.timeoutMs ?? 0);
+}
+
+/**
+ * Caller tools for a run and how to call them, validated by the Worker
+ */
+interface ToolCallbacks {
+  tools: CallbackTool[];
+  secret: string;
+  timeoutMs: number;
+  maxResultBytes: number;
+}
+
+/**
+ * Translate run options into CLI flags
+ * List flags use the --flag=value form so the variadic parser doesn't swallow the prompt
+ */
+function buildOptionArgs(options: RunOptions = {}): string[] {
+  const args: string[] = [];
+  const model = options.model || process.env.MODEL;
+
+  if (model) args.push("--model", model);
+  if (options.systemPrompt) args.push("--system-prompt", options.systemPrompt);
+  if (options.appendSystemPrompt) args.push("--append-system-prompt", options.appendSystemPrompt);
+  if (options.maxTurns) args.push("--max-turns", String(options.maxTurns));
+  if (options.allowedTools?.length) args.push(`--allowedTools=${options.allowedTools.join(",")}`);
+  if (options.disallowedTools?.length) args.push(`--disallowedTools=${options.disallowedTools.join(",")}`);
+  if (options.permissionMode) args.push("--permission-mode", options.permissionMode);
+  if (options.agents && Object.keys(options.agents).length > 0) args.push(`--agents=${JSON.stringify(options.agents)}`);
+
+  return args;
+}
+
+/**
+ * Write a run's MCP servers to a private config file and return the CLI flags that load it
+ * The config holds account secrets, so it is not passed on the command line (which is logged)
+ * --strict-mcp-config keeps the run to exactly these servers
+ */
+function writeMcpConfig(servers: RunOptions["mcpServers"]): { path: string; args: string[] } | null {
+  if (!servers || Object.keys(servers).length === 0) {
+    return null;
+  }
+  const configPath = path.join("/tmp", `mcp-config-${randomUUID()}.json`);
+  fs.writeFileSync(configPath, JSON.stringify({ mcpServers: servers }), { mode: 0o600 });
+  return { path: configPath, args: [`--mcp-config=${configPath}`, "--strict-mcp-config"] };
+}
+
+/**
+ * Caller tools and the permission prompt are served to the CLI as MCP servers on this process,
+ * with one set of endpoints per run
+ */
+const CALLBACK_MCP_SERVER = "callbacks";
+const APPROVAL_MCP_SERVER = "approvals";
+const PERMISSION_PROMPT_TOOL = "permission_prompt";
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * Answer from the permission prompt tool, in the format the CLI expects
+ */
+type ApprovalDecision =
+  | { behavior: "allow"; updatedInput: Record<string, unknown> }
+  | { behavior: "deny"; message: string };
+
+/**
+ * A tool use waiting for /runs/:id/approve|deny; the CLI is blocked until it settles
+ */
+interface PendingApproval {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  requestedAt: number;
+  expiresAt: number;
+  settle: (decision: { behavior: "allow"; updatedInput?: Record<string, unknown> } | { behavior: "deny"; message: string }) => void;
+}
+
+interface RunBridge {
+  token: string;
+  runId?: string;
+  // When the run's CLI will be killed; approvals never wait past it
+  deadline: number;
+  callbacks?: ToolCallbacks;
+  approvals?: ApprovalOptions;
+  pending: Map<string, PendingApproval>;
+}
+
+const runBridges = new Map<string, RunBridge>();
+
+/**
+ * Register a run's caller tools and approval settings, and return the MCP servers that reach them
+ * The bearer token keeps other runs (and anything else reaching the port) off the endpoints
+ */
+function openRunBridge(options: RunOptions = {}, runId?: string): { id: string; servers: Record<string, Record<string, unknown>> } | null {
+  const enabled = [
+    ...(options.callbacks?.tools.length ? [CALLBACK_MCP_SERVER] : []),
+    ...(options.approvals ? [APPROVAL_MCP_SERVER] : [])
+  ];
+  if (enabled.length === 0) {
+    return null;
+  }
+
+  const id = randomUUID();
+  const token = randomUUID();
+  runBridges.set(id, {
+    token,
+    runId,
+    deadline: Date.now() + cliTimeoutMs(options),
+    callbacks: options.callbacks,
+    approvals: options.approvals,
+    pending: new Map()
+  });
+  return {
+    id,
+    servers: Object.fromEntries(enabled.map(name => [name, {
+      type: "http",
+      url: `http://127.0.0.1:${PORT}/bridges/${id}/${name}/mcp`,
+      headers: { Authorization: `Bearer ${token}` }
+    }]))
+  };
+}
+
+/**
+ * Deny whatever is still waiting (the run is over) and drop the bridge
+ */
+function closeRunBridge(id: string) {
+  const bridge = runBridges.get(id);
+  for (const approval of bridge?.pending.values() || []) {
+    approval.settle({ behavior: "deny", message: "Run ended" });
+  }
+  runBridges.delete(id);
+}
+
+function findRunBridge(runId: string): RunBridge | undefined {
+  return [...runBridges.values()].find(b => b.runId === runId);
+}
+
+/**
+ * Whether an IPv4 address is loopback, link-local, private, shared (CGNAT), benchmarking, multicast or reserved
+ */
+function isInternalIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+function isInternalAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    return isInternalIPv4(address);
+  }
+  const host = address.toLowerCase();
+  // IPv4-mapped addresses, dotted (::ffff:127.0.0.1) or as URL parsing writes them (::ffff:7f00:1)
+  const dotted = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isInternalIPv4(dotted[1]);
+  }
+  const hex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isInternalIPv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return host === "::" || host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith("ff");
+}
+
+/**
+ * Refuse URLs whose host is, or resolves to, this container or an internal network
+ * The Worker validates URLs on the way in; this also catches public names pointing at private addresses
+ */
+async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" && protocol !== "http:") {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new Error(`Refusing to call internal host ${hostname}`);
+  }
+}
+
+/**
+ * POST JSON signed as HMAC-SHA256(secret, "<timestamp>.<body>") so receivers can verify it and reject replays
+ * Only public hosts are called, and redirects are not followed so they cannot lead to internal ones
+ */
+async function signedPost(url: string, payload: unknown, secret: string, timeoutMs: number): Promise<Response> {
+  await assertPublicUrl(url);
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-callback-timestamp": timestamp,
+      "x-callback-signature": `sha256=${signature}`
+    },
+    body,
+    redirect: "error",
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+}
+
+/**
+ * Read a response body, giving up once it exceeds maxBytes
+ */
+async function readLimited(res: Response, maxBytes: number): Promise<string | null> {
+  if (!res.body) {
+    return "";
+  }
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * POST a tool invocation to the caller's endpoint
+ * Failures are returned as tool errors for the model, not raised
+ */
+async function invokeCallback(bridge: RunBridge, tool: CallbackTool, input: unknown): Promise<{ text: string; isError: boolean }> {
+  const { secret, timeoutMs, maxResultBytes } = bridge.callbacks!;
+  const callId = randomUUID();
+  const startedAt = Date.now();
+
+  try {
+    const res = await signedPost(tool.callbackUrl, { tool: tool.name, input, runId: bridge.runId || null, callId }, secret, timeoutMs);
+    const text = await readLimited(res, maxResultBytes);
+    log.info("Tool callback invoked", { runId: bridge.runId, tool: tool.name, callId, status: res.status, durationMs: Date.now() - startedAt });
+
+    if (text === null) {
+      return { text: `Tool result exceeded ${maxResultBytes} bytes`, isError: true };
+    }
+    if (!res.ok) {
+      return { text: `Tool callback failed with status ${res.status}: ${text}`, isError: true };
+    }
+    return { text, isError: false };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    const message = timedOut ? `Tool callback timed out after ${timeoutMs}ms` : `Tool callback failed: ${error instanceof Error ? error.message : String(error)}`;
+    log.error("Tool callback failed", { runId: bridge.runId, tool: tool.name, callId, error: message });
+    return { text: message, isError: true };
+  }
+}
+
+/**
+ * Hold a permission request until it is approved, denied or times out (auto-deny)
+ * The wait is cut short when the run's CLI timeout is near, so the deny still reaches the CLI
+ */
+function requestApproval(bridge: RunBridge, toolName: string, input: Record<string, unknown>): Promise<ApprovalDecision> {
+  const id = randomUUID();
+  const requestedAt = Date.now();
+  const timeoutMs = Math.max(0, Math.min(bridge.approvals!.timeoutMs, bridge.deadline - APPROVAL_DEADLINE_MARGIN_MS - requestedAt));
+  const expiresAt = requestedAt + timeoutMs;
+
+  const decision = new Promise<ApprovalDecision>(resolve => {
+    const timer = setTimeout(() => {
+      log.info("Approval timed out", { runId: bridge.runId, approvalId: id, toolName });
+      settle({ behavior: "deny", message: `No approval within ${Math.round(timeoutMs / 1000)}s` });
+    }, timeoutMs);
+
+    const settle: PendingApproval["settle"] = (result) => {
+      clearTimeout(timer);
+      bridge.pending.delete(id);
+      // An approval without edits runs the tool with its original input
+      resolve(result.behavior === "allow" ? { behavior: "allow", updatedInput: result.updatedInput ?? input } : result);
+    };
+
+    bridge.pending.set(id, { id, toolName, input, requestedAt, expiresAt, settle });
+  });
+
+  log.info("Waiting for approval", { runId: bridge.runId, approvalId: id, toolName });
+  return decision;
+}
+
+/**
+ * Tools a bridge serves under one of its MCP servers
+ */
+function bridgeTools(bridge: RunBridge, server: string): Array<{ name: string; description: string; inputSchema: Record<string, unknown> }> {
+  if (server === CALLBACK_MCP_SERVER) {
+    return (bridge.callbacks?.tools || []).map(t => ({ name: t.name, description: t.description, inputSchema: t.inputSchema }));
+  }
+  return [{
+    name: PERMISSION_PROMPT_TOOL,
+    description: "Ask a human reviewer whether a tool use may proceed",
+    inputSchema: {
+      type: "object",
+      properties: { tool_name: { type: "string" }, input: { type: "object" }, tool_use_id: { type: "string" } },
+      required: ["tool_name", "input"]
+    }
+  }];
+}
+
+/**
+ * Answer one MCP JSON-RPC request on a bridge server (initialize, tools/list, tools/call)
+ */
+async function handleBridgeMessage(
+  bridge: RunBridge,
+  server: string,
+  method: string,
+  params: any
+): Promise<{ result?: unknown; error?: { code: number; message: string } }> {
+  switch (method) {
+    case "initialize":
+      return {
+        result: {
+          protocolVersion: params?.protocolVersion || MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: server, version: "1.0.0" }
+        }
+      };
+    case "ping":
+      return { result: {} };
+    case "tools/list":
+      return { result: { tools: bridgeTools(bridge, server) } };
+    case "tools/call": {
+      if (server === APPROVAL_MCP_SERVER && params?.name === PERMISSION_PROMPT_TOOL) {
+        const decision = await requestApproval(bridge, String(params.arguments?.tool_name), params.arguments?.input ?? {});
+        return { result: { content: [{ type: "text", text: JSON.stringify(decision) }] } };
+      }
+      const tool = server === CALLBACK_MCP_SERVER ? bridge.callbacks?.tools.find(t => t.name === params?.name) : undefined;
+      if (!tool) {
+        return { error: { code: -32602, message: `Unknown tool: ${params?.name}` } };
+      }
+      const { text, isError } = await invokeCallback(bridge, tool, params.arguments ?? {});
+      return { result: { content: [{ type: "text", text }], isError } };
+    }
+    default:
+      return { error: { code: -32601, message: `Method not found: ${method}` } };
+  }
+}
+
+/**
+ * Conversation session state passed by the Worker
+ * The CLI keeps its history in a JSONL file under ~/.claude/projects, which is
+ * lost when the container sleeps, so the Worker round-trips it on every turn
+ */
+interface SessionState {
+  id: string;
+  resume: boolean;
+  transcript?: string;
+}
+
+/**
+ * Location of the CLI's transcript for a session started in RUN_CWD
+ */
+function sessionTranscriptPath(sessionId: string): string {
+  const projectDir = RUN_CWD.replace(/[^a-zA-Z0-9]/g, "-");
+  return path.join(CLAUDE_PROJECTS_DIR, projectDir, `${sessionId}.jsonl`);
+}
+
+/**
+ * Restore the transcript of a resumed session and return the matching CLI flags
+ */
+function prepareSession(session: SessionState): string[] {
+  if (!session.resume) {
+    return ["--session-id", session.id];
+  }
+
+  if (session.transcript) {
+    const transcriptPath = sessionTranscriptPath(session.id);
+    fs.mkdirSync(path.dirname(transcriptPath), { recursive: true });
+    fs.writeFileSync(transcriptPath, session.transcript);
+    log.info("Restored session transcript", { sessionId: session.id, bytes: session.transcript.length });
+  }
+  return ["--resume", session.id];
+}
+
+/**
+ * Read the CLI transcript after a turn so the Worker can persist it
+ */
+function readSessionTranscript(sessionId: string): string | null {
+  try {
+    return fs.readFileSync(sessionTranscriptPath(sessionId), "utf-8");
+  } catch (error) {
+    log.warn("Session transcript not found", { sessionId, error });
+    return null;
+  }
+}
+
+/**
+ * Usage and outcome of a CLI run, taken from its JSON result message
+ */
+interface RunMetadata {
+  sessionId: string | null;
+  numTurns: number;
+  durationMs: number;
+  durationApiMs: number;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+  };
+  costUsd: number;
+  stopReason: string | null;
+  isError: boolean;
+}
+
+interface CliResult {
+  response: string;
+  metadata: RunMetadata;
+}
+
+/**
+ * A tool the agent invoked during a run, for the Worker's audit log
+ * isError is null when no result was seen (e.g. the run was interrupted)
+ */
+interface ToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+  isError: boolean | null;
+}
+
+/**
+ * Normalise the CLI's snake_case result message into RunMetadata
+ */
+function parseCliResult(message: any): CliResult {
+  const usage = message.usage || {};
+  return {
+    response: typeof message.result === "string" ? message.result : "",
+    metadata: {
+      sessionId: message.session_id || null,
+      numTurns: message.num_turns || 0,
+      durationMs: message.duration_ms || 0,
+      durationApiMs: message.duration_api_ms || 0,
+      usage: {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadInputTokens: usage.cache_read_input_tokens || 0
+      },
+      costUsd: message.total_cost_usd || 0,
+      // Older CLI versions only report the result subtype (success, error_max_turns, ...)
+      stopReason: message.stop_reason || message.subtype || null,
+      isError: !!message.is_error
+    }
+  };
+}
+
+/**
+ * Execute Claude CLI with --print flag for non-interactive output
+ * Runs in stream-json mode so the tools it invoked are known as well as usage and cost
+ */
+async function executeClaudeCLI(prompt: string, extraArgs: string[] = [], runId?: string, timeoutMs?: number): Promise<CliResult & { toolCalls: ToolCall[] }> {
+  // Assigned from the line callback, so declared wide enough not to narrow to null
+  let result = null as CliResult | null;
+  const toolCalls: ToolCall[] = [];
+
+  await spawnClaudeCLI([
+    "--print",
+    "--output-format", "stream-json",
+    "--verbose",
+    ...extraArgs,
+    prompt
+  ], (line) => {
+    for (const event of toStreamEvents(line)) {
+      if (event.event === "result") {
+        const { success, response, ...metadata } = event.data as RunMetadata & { success: boolean; response: string };
+        result = { response, metadata };
+      } else {
+        collectToolCall(toolCalls, event);
+      }
+    }
+  }, runId, timeoutMs);
+
+  if (!result) {
+    throw new Error("Claude CLI finished without a result");
+  }
+  return { ...result, toolCalls };
+}
+
+/**
+ * Keep track of tool calls from tool_use events, completing them with their tool_result
+ */
+function collectToolCall(toolCalls: ToolCall[], { event, data }: StreamEvent) {
+  if (event === "tool_use") {
+    const { id, name, input } = data as { id: string; name: string; input: unknown };
+    toolCalls.push({ id, name, input, isError: null });
+  } else if (event === "tool_result") {
+    const { toolUseId, isError } = data as { toolUseId: string; isError: boolean };
+    const call = toolCalls.find(c => c.id === toolUseId);
+    if (call) call.isError = isError;
+  }
+}
+
+/**
+ * Server-Sent Event emitted to streaming clients
+ */
+interface StreamEvent {
+  event: "init" | "delta" | "tool_use" | "tool_result" | "result" | "cancelled" | "error";
+  data: unknown;
+}
+
+/**
+ * Translate one stream-json line from the CLI into zero or more SSE events
+ * Text is forwarded as deltas from partial messages, so complete assistant
+ * messages only contribute their tool calls
+ */
+function toStreamEvents(line: string): StreamEvent[] {
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    log.warn("Ignoring non-JSON line from CLI", { bytes: line.length });
+    return [];
+  }
+
+  switch (message.type) {
+    case "system":
+      if (message.subtype !== "init") return [];
+      return [{ event: "init", data: { sessionId: message.session_id, model: message.model } }];
+
+    case "stream_event": {
+      const event = message.event;
+      if (event?.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        return [{ event: "delta", data: { text: event.delta.text } }];
+      }
+      return [];
+    }
+
+    case "assistant":
+      return (message.message?.content || [])
+        .filter((block: any) => block.type === "tool_use")
+        .map((block: any) => ({
+          event: "tool_use" as const,
+          data: { id: block.id, name: block.name, input: block.input }
+        }));
+
+    case "user":
+      return (message.message?.content || [])
+        .filter((block: any) => block.type === "tool_result")
+        .map((block: any) => ({
+          event: "tool_result" as const,
+          data: { toolUseId: block.tool_use_id, isError: !!block.is_error }
+        }));
+
+    case "result": {
+      const { response, metadata } = parseCliResult(message);
+      return [{
+        event: "result",
+        data: { success: !metadata.isError, response, ...metadata }
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Execute Claude CLI with stream-json output, forwarding events as they arrive
+ */
+async function streamClaudeCLI(
+  prompt: string,
+  onEvent: (event: StreamEvent) => void,
+  extraArgs: string[] = [],
+  runId?: string,
+  timeoutMs?: number
+): Promise<void> {
+  await spawnClaudeCLI([
+    "--print",
+    "--output-format", "stream-json",
+    "--verbose",
+    "--include-partial-messages",
+    ...extraArgs,
+    prompt
+  ], (line) => {
+    for (const event of toStreamEvents(line)) {
+      onEvent(event);
+    }
+  }, runId, timeoutMs);
+}
+
+/**
+ * Create the workspace and link the project .claude directory into it,
+ * so skills are still discovered with the workspace as the CLI's cwd
+ */
+function setupWorkspace() {
+  fs.mkdirSync(WORKSPACE_DIR, { recursive: true });
+  const claudeLink = path.join(WORKSPACE_DIR, ".claude");
+  if (!fs.existsSync(claudeLink) && fs.existsSync("/app/.claude")) {
+    fs.symlinkSync("/app/.claude", claudeLink);
+  }
+}
+
+// Top-level workspace entries that are not part of the synced workspace
+const UNSYNCED_WORKSPACE_ENTRIES = [".claude", ".attachments"];
+
+/**
+ * Decode a percent-encoded path segment, or null if it is malformed (e.g. "%E0%A4%A")
+ */
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a workspace-relative path
+ * Returns null for paths outside the workspace or inside its .claude / .attachments directories
+ */
+function resolveWorkspacePath(relativePath: string): string | null {
+  const resolved = path.resolve(WORKSPACE_DIR, relativePath);
+  if (!resolved.startsWith(WORKSPACE_DIR + path.sep)) {
+    return null;
+  }
+  if (UNSYNCED_WORKSPACE_ENTRIES.includes(path.relative(WORKSPACE_DIR, resolved).split(path.sep)[0])) {
+    return null;
+  }
+  return resolved;
+}
+
+interface WorkspaceFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Every regular file in the workspace, with content hashes for diffing against R2
+ */
+function listWorkspaceFiles(dir: string = WORKSPACE_DIR): WorkspaceFile[] {
+  const files: WorkspaceFile[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (dir === WORKSPACE_DIR && UNSYNCED_WORKSPACE_ENTRIES.includes(entry.name)) continue;
+
+    if (entry.isDirectory()) {
+      files.push(...listWorkspaceFiles(fullPath));
+    } else if (entry.isFile()) {
+      const content = fs.readFileSync(fullPath);
+      files.push({
+        path: path.relative(WORKSPACE_DIR, fullPath),
+        size: content.length,
+        sha256: createHash("sha256").update(content).digest("hex")
+      });
+    }
+  }
+  return files;
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   // Health check endpoint (no authentication required)
   if (req.url === "/healthz" && req.method === "GET") {
     res.writeHead(200, { "content-type": "application/json" });
     return res.end(JSON.stringify({
       status: "ok",
       authMode: process.env.CLAUDE_ACCESS_TOKEN ? "subscription" : "api_key",
-      hasWorkerAuth: !!process.env.WORKER_API_KEY,
+      hasWorkerAuth: !!AUTH_TOKEN,
       timestamp: new Date().toISOString()
     }));
   }
 
-  // Main execution endpoint (requires API key)
+  // Everything else comes from the Worker, except the run bridges the CLI calls with their own bearer token
+  if (!req.url?.startsWith("/bridges/") && !isAuthorized(req)) {
+    res.writeHead(401, { "content-type": "application/json" });
+    return res.end(JSON.stringify({
+      error: "Unauthorized",
+      message: `Invalid or missing ${AUTH_TOKEN_HEADER} header`
+    }));
+  }
+
+  // Main execution endpoint
   if (req.url === "/run" && req.method === "POST") {
-    // Validate API key
-    if (!validateApiKey(req)) {
-      res.writeHead(401, { "content-type": "application/json" });
-      return res.end(JSON.stringify({
-        error: "Unauthorized",
-        message: "Invalid or missing x-api-key header"
-      }));
-    }
     let body = "";
+    let mcpConfig: ReturnType<typeof writeMcpConfig> = null;
+    let bridge: ReturnType<typeof openRunBridge> = null;
+    // Set once the CLI is spawned, so responses can report how long it ran and how it exited
+    let cliStartedAt: number | null = null;
+    const execution = (error?: unknown) => cliStartedAt === null ? undefined : {
+      exitCode: error === undefined ? 0 : error instanceof CliExitError ? error.exitCode : null,
+      durationMs: Date.now() - cliStartedAt,
+      timedOut: error instanceof CliTimeoutError
+    };
     try {
       for await (const chunk of req) {
         body += chunk;
       }
 
-      const { prompt } = JSON.parse(body || "{}") as { prompt?: string };
+      const { prompt, stream, session, runId: requestedRunId, options, frameworkContext: selectedFramework } = JSON.parse(body || "{}") as {
+        prompt?: string;
+        stream?: boolean;
+        session?: SessionState;
+        runId?: string;
+        options?: RunOptions;
+        frameworkContext?: string;
+      };
 
       if (!prompt) {
         res.writeHead(400, { "content-type": "application/json" });
         return res.end(JSON.stringify({ error: "No prompt provided" }));
       }
 
+      if (requestedRunId && (!RUN_ID_PATTERN.test(requestedRunId) || activeRuns.has(requestedRunId))) {
+        res.writeHead(400, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Invalid or duplicate run id" }));
+      }
+      // Every run is addressable, so it can be cancelled when the client goes away
+      const runId = requestedRunId || randomUUID();
+
+      // Session ids become file names, so only accept the UUIDs the CLI expects
+      if (session && !UUID_PATTERN.test(session.id || "")) {
+        res.writeHead(400, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Invalid session id" }));
+      }
+
       // Check authentication is available
       const hasOAuth = !!process.env.CLAUDE_ACCESS_TOKEN;
       const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
@@ -298,41 +1133,357 @@ const server = http.createServer(async (req, res) => {
         }));
       }
 
-      console.log("[Request] Processing prompt, auth mode:", hasOAuth ? "subscription" : "api_key");
-
       // Inject framework context into the prompt
-      const frameworkContext = loadFrameworkContext();
+      // The Worker may send a selected subset ("" for none); otherwise use the bundled file
+      // Resumed sessions already carry it in their transcript
+      const frameworkContext = session?.resume
+        ? ""
+        : typeof selectedFramework === "string" ? selectedFramework : loadFrameworkContext();
       const enrichedPrompt = frameworkContext
         ? `${frameworkContext}\n\n---\n\n# User Query\n\n${prompt}`
         : prompt;
 
-      console.log(`[Request] Prompt enriched with framework: ${!!frameworkContext}`);
+      log.info("Processing prompt", {
+        runId,
+        authMode: hasOAuth ? "subscription" : "api_key",
+        stream: !!stream,
+        withFramework: !!frameworkContext
+      });
+
+      bridge = openRunBridge(options, runId);
+      mcpConfig = writeMcpConfig({ ...options?.mcpServers, ...bridge?.servers });
+
+      const cliArgs = [
+        ...buildOptionArgs(options),
+        ...(mcpConfig?.args || []),
+        ...(options?.approvals ? ["--permission-prompt-tool", `mcp__${APPROVAL_MCP_SERVER}__${PERMISSION_PROMPT_TOOL}`] : []),
+        ...(session ? prepareSession(session) : [])
+      ];
 
-      const responseText = await executeClaudeCLI(enrichedPrompt);
+      // A client that disconnects (e.g. the Worker request was aborted) no longer wants the run
+      res.on("close", () => {
+        if (!res.writableFinished) cancelRun(runId, "client disconnected");
+      });
+
+      if (stream) {
+        res.writeHead(200, {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache",
+          "connection": "keep-alive"
+        });
+        const sendEvent = ({ event, data }: StreamEvent) => {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        try {
+          cliStartedAt = Date.now();
+          await streamClaudeCLI(enrichedPrompt, sendEvent, cliArgs, runId, cliTimeoutMs(options));
+        } catch (error) {
+          if (error instanceof RunCancelledError) {
+            sendEvent({ event: "cancelled", data: { runId, status: "cancelled" } });
+            return res.end();
+          }
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          log.error("Streaming run failed", { runId, error: errorMessage });
+          sendEvent({
+            event: "error",
+            data: { error: errorMessage, exitCode: execution(error)?.exitCode ?? null, timedOut: error instanceof CliTimeoutError }
+          });
+        }
+        return res.end();
+      }
+
+      cliStartedAt = Date.now();
+      const { response, metadata, toolCalls } = await executeClaudeCLI(enrichedPrompt, cliArgs, runId, cliTimeoutMs(options));
 
       res.writeHead(200, { "content-type": "application/json" });
       return res.end(JSON.stringify({
-        success: true,
-        response: responseText,
-        authMode: hasOAuth ? "subscription" : "api_key"
+        success: !metadata.isError,
+        response,
+        authMode: hasOAuth ? "subscription" : "api_key",
+        metadata,
+        toolCalls,
+        execution: execution(),
+        ...(session && {
+          session: { id: session.id, transcript: readSessionTranscript(session.id) }
+        })
       }));
     } catch (error) {
+      if (error instanceof RunCancelledError) {
+        res.writeHead(409, { "content-type": "application/json" });
+        return res.end(JSON.stringify({
+          success: false,
+          status: "cancelled",
+          runId: error.runId,
+          error: error.message,
+          execution: execution(error)
+        }));
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("[Container Error]", errorMessage);
+      log.error("Run failed", { error: errorMessage });
+      res.writeHead(500, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: errorMessage, execution: execution(error) }));
+    } finally {
+      if (mcpConfig) {
+        fs.rmSync(mcpConfig.path, { force: true });
+      }
+      if (bridge) {
+        closeRunBridge(bridge.id);
+      }
+    }
+  }
+
+  // MCP endpoints for a run's caller tools and permission prompt (authenticated by the per-run bearer token, not the container token)
+  const bridgeMatch = req.url?.match(/^\/bridges\/([^/]+)\/(callbacks|approvals)\/mcp$/);
+  if (bridgeMatch) {
+    const bridge = runBridges.get(bridgeMatch[1]);
+    const server = bridgeMatch[2];
+    const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+    if (!bridge || !timingSafeEqual(token, bridge.token) || (server === CALLBACK_MCP_SERVER ? !bridge.callbacks : !bridge.approvals)) {
+      res.writeHead(404, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Not found" }));
+    }
+
+    // No server-initiated streams or sessions to open or close
+    if (req.method !== "POST") {
+      res.writeHead(405, { allow: "POST" });
+      return res.end();
+    }
+
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }));
+    }
+
+    // Notifications (no id) get no response body
+    if (message.id === undefined) {
+      res.writeHead(202);
+      return res.end();
+    }
+
+    const reply = await handleBridgeMessage(bridge, server, message.method, message.params);
+    res.writeHead(200, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ jsonrpc: "2.0", id: message.id, ...reply }));
+  }
+
+  // Replace OAuth credentials after the Worker refreshed them
+  if (req.url === "/credentials" && req.method === "POST") {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    let credentials: { accessToken?: string; expiresAt?: number };
+    try {
+      credentials = JSON.parse(body || "{}");
+    } catch {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid JSON body" }));
+    }
+
+    const { accessToken, expiresAt } = credentials;
+    if (!accessToken) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "accessToken is required" }));
+    }
+
+    // New runs read these through buildClaudeEnv; the CLI reads the credentials file
+    process.env.CLAUDE_ACCESS_TOKEN = accessToken;
+    process.env.CLAUDE_EXPIRES_AT = expiresAt ? String(expiresAt) : "";
+    process.env.CLAUDE_USE_SUBSCRIPTION = "true";
+
+    const written = setupCredentials();
+    res.writeHead(written ? 200 : 500, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ success: written }));
+  }
+
+  // Cancel a running CLI process
+  const cancelMatch = req.url?.match(/^\/runs\/([^/]+)\/cancel$/);
+  if (cancelMatch && req.method === "POST") {
+    const runId = decodePathSegment(cancelMatch[1]);
+    if (runId === null) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid run id" }));
+    }
+    if (!cancelRun(runId, "cancel requested")) {
+      res.writeHead(404, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: `Run '${runId}' is not active` }));
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ success: true, runId }));
+  }
+
+  // Permission requests a run is waiting on: GET /runs/:id/approvals, POST /runs/:id/approvals/:approvalId
+  const approvalMatch = req.url?.match(/^\/runs\/([^/]+)\/approvals(?:\/([^/]+))?$/);
+  if (approvalMatch) {
+    const runId = decodePathSegment(approvalMatch[1]);
+    const approvalId = approvalMatch[2] ? decodePathSegment(approvalMatch[2]) : undefined;
+    if (runId === null || approvalId === null) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid approval path" }));
+    }
+    const bridge = findRunBridge(runId);
+    if (!bridge?.approvals) {
+      res.writeHead(404, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: `Run '${runId}' is not waiting on approvals` }));
+    }
+
+    if (!approvalId && req.method === "GET") {
+      const pending = [...bridge.pending.values()].map(({ id, toolName, input, requestedAt, expiresAt }) => ({ id, toolName, input, requestedAt, expiresAt }));
+      res.writeHead(200, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ runId, pending }));
+    }
+
+    if (approvalId && req.method === "POST") {
+      const approval = bridge.pending.get(approvalId);
+      if (!approval) {
+        res.writeHead(404, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Approval is not pending" }));
+      }
+
+      let body = "";
+      for await (const chunk of req) {
+        body += chunk;
+      }
+
+      let decision: { behavior?: string; updatedInput?: Record<string, unknown>; message?: string };
+      try {
+        decision = JSON.parse(body || "{}");
+      } catch {
+        res.writeHead(400, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Invalid JSON body" }));
+      }
+      log.info("Approval decided", { runId, approvalId: approval.id, toolName: approval.toolName, behavior: decision.behavior });
+      approval.settle(decision.behavior === "allow"
+        ? { behavior: "allow", updatedInput: decision.updatedInput }
+        : { behavior: "deny", message: decision.message || "Denied by reviewer" });
+      res.writeHead(200, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ success: true, runId, approvalId: approval.id }));
+    }
+
+    res.writeHead(405, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ error: "Method not allowed" }));
+  }
+
+  // Request attachments: PUT /attachments/:uploadId/:name, DELETE /attachments/:uploadId
+  const attachmentMatch = req.url?.match(/^\/attachments\/([^/]+)(?:\/([^/]+))?$/);
+  if (attachmentMatch) {
+    const uploadId = decodePathSegment(attachmentMatch[1]);
+    const name = attachmentMatch[2] ? decodePathSegment(attachmentMatch[2]) : undefined;
+    if (uploadId === null || name === null || !RUN_ID_PATTERN.test(uploadId) || (name !== undefined && !ATTACHMENT_NAME_PATTERN.test(name))) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid attachment path" }));
+    }
+
+    try {
+      const uploadDir = path.join(ATTACHMENTS_DIR, uploadId);
+      if (name && req.method === "PUT") {
+        fs.mkdirSync(uploadDir, { recursive: true });
+        await pipeline(req, fs.createWriteStream(path.join(uploadDir, name)));
+        res.writeHead(200, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ success: true, path: path.relative(RUN_CWD, path.join(uploadDir, name)) }));
+      }
+      if (!name && req.method === "DELETE") {
+        fs.rmSync(uploadDir, { recursive: true, force: true });
+        res.writeHead(200, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ success: true }));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log.error("Attachment request failed", { error: errorMessage });
       res.writeHead(500, { "content-type": "application/json" });
       return res.end(JSON.stringify({ error: errorMessage }));
     }
   }
 
+  // Workspace files, used by the Worker to restore and snapshot the workspace
+  if (req.url === "/workspace/files" || req.url?.startsWith("/workspace/files/")) {
+    try {
+      if (req.url === "/workspace/files" && req.method === "GET") {
+        res.writeHead(200, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ files: listWorkspaceFiles() }));
+      }
+
+      const relativePath = decodePathSegment(req.url.slice("/workspace/files/".length));
+      const filePath = relativePath === null ? null : resolveWorkspacePath(relativePath);
+      if (!filePath) {
+        res.writeHead(400, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Invalid workspace path" }));
+      }
+
+      if (req.method === "GET") {
+        if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+          res.writeHead(404, { "content-type": "application/json" });
+          return res.end(JSON.stringify({ error: "File not found" }));
+        }
+        res.writeHead(200, { "content-type": "application/octet-stream", "content-length": fs.statSync(filePath).size });
+        return await pipeline(fs.createReadStream(filePath), res);
+      }
+
+      if (req.method === "PUT") {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        await pipeline(req, fs.createWriteStream(filePath));
+        res.writeHead(200, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ success: true }));
+      }
+
+      if (req.method === "DELETE") {
+        fs.rmSync(filePath, { force: true });
+        res.writeHead(200, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ success: true }));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log.error("Workspace request failed", { error: errorMessage });
+      if (!res.headersSent) {
+        res.writeHead(500, { "content-type": "application/json" });
+      }
+      return res.end(JSON.stringify({ error: errorMessage }));
+    }
+  }
+
   res.writeHead(404, { "content-type": "text/plain" });
   res.end("Not Found");
+}
+
+const server = http.createServer((req, res) => {
+  // Continue the Worker's trace so container log lines carry the same request id
+  const trace = startTrace(req.headers.traceparent as string | undefined, req.headers["x-request-id"] as string | undefined);
+  for (const [name, value] of Object.entries(traceHeaders(trace))) {
+    res.setHeader(name, value);
+  }
+  // An error that escapes a handler must not become an unhandled rejection, which would stop every run in the container
+  withLogContext(traceFields(trace), () => handleRequest(req, res).catch((error) => {
+    log.error("Request failed", { method: req.method, url: req.url, error: error instanceof Error ? error.message : String(error) });
+    if (!res.headersSent) {
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: "Internal server error" }));
+    } else {
+      res.end();
+    }
+  }));
 });
 
-// Setup credentials on startup
+// Setup credentials and workspace on startup
 const usingSubscription = setupCredentials();
+setupWorkspace();
+
+if (!AUTH_TOKEN) {
+  log.error("CONTAINER_AUTH_TOKEN not set, rejecting every request except /healthz");
+}
 
 server.listen(PORT, () => {
-  console.log(`Claude CLI container listening on port ${PORT}`);
-  console.log(`Auth mode: ${usingSubscription ? "Max subscription (OAuth)" : "API key"}`);
-  console.log(`Credentials path: ${CREDENTIALS_PATH}`);
+  log.info("Claude CLI container listening", {
+    port: PORT,
+    authMode: usingSubscription ? "subscription" : "api_key"
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * Local stub of a remote MCP server (streamable HTTP transport) for testing MCP_SERVERS
+ *
+ * Usage: npx tsx scripts/mock-mcp-server.ts [port]
+ *
+ * Then define it in .dev.vars (containers reach the host via host.docker.internal):
+ *   MCP_SERVERS={"stub":{"type":"http","url":"http://host.docker.internal:8789/mcp","headers":{"Authorization":"Bearer ${secret:STUB_TOKEN}"}}}
+ *
+ * and set the secret for the account:
+ *   curl -X PUT .../admin/accounts/default/mcp -d '{"secrets":{"STUB_TOKEN":"test-token"}}'
+ *
+ * This script:
+ * 1. Answers initialize, tools/list and tools/call as JSON responses (no SSE streams)
+ * 2. Exposes a single `echo` tool that returns its input
+ * 3. Rejects requests without `Authorization: Bearer <EXPECTED_TOKEN>` when EXPECTED_TOKEN is set
+ */
+
+import http from 'http';
+
+const PORT = parseInt(process.argv[2] || '8789');
+const EXPECTED_TOKEN = process.env.EXPECTED_TOKEN;
+const PROTOCOL_VERSION = '2025-06-18';
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text']
+    }
+  }
+];
+
+function handle(method: string, params: any): { result?: unknown; error?: { code: number; message: string } } {
+  switch (method) {
+    case 'initialize':
+      return {
+        result: {
+          protocolVersion: params?.protocolVersion || PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'mock-mcp-server', version: '1.0.0' }
+        }
+      };
+    case 'ping':
+      return { result: {} };
+    case 'tools/list':
+      return { result: { tools: TOOLS } };
+    case 'tools/call':
+      if (params?.name !== 'echo') {
+        return { error: { code: -32602, message: `Unknown tool: ${params?.name}` } };
+      }
+      return { result: { content: [{ type: 'text', text: String(params.arguments?.text ?? '') }] } };
+    default:
+      return { error: { code: -32601, message: `Method not found: ${method}` } };
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.url !== '/mcp') {
+    res.writeHead(404, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ error: 'not_found' }));
+  }
+
+  // No server-initiated streams or sessions to open or close
+  if (req.method !== 'POST') {
+    res.writeHead(405, { allow: 'POST' });
+    return res.end();
+  }
+
+  if (EXPECTED_TOKEN && req.headers.authorization !== `Bearer ${EXPECTED_TOKEN}`) {
+    console.log('Rejected request with missing or wrong Authorization header');
+    res.writeHead(401, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ error: 'unauthorized' }));
+  }
+
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  let message: any;
+  try {
+    message = JSON.parse(body);
+  } catch {
+    res.writeHead(400, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+  }
+
+  console.log(`${message.method}${message.method === 'tools/call' ? ` ${JSON.stringify(message.params)}` : ''}`);
+
+  // Notifications (no id) get no response body
+  if (message.id === undefined) {
+    res.writeHead(202);
+    return res.end();
+  }
+
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, ...handle(message.method, message.params) }));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock MCP server at http://localhost:${PORT}/mcp`);
+  console.log(EXPECTED_TOKEN ? 'Requiring Authorization: Bearer $EXPECTED_TOKEN' : 'Accepting unauthenticated requests');
+});
@@ -0,0 +1,65 @@
+/**
+ * Local mock of the OAuth token endpoint for testing token refresh
+ *
+ * Usage: npx tsx scripts/mock-oauth-server.ts [port]
+ *
+ * Then point the Worker at it in .dev.vars:
+ *   OAUTH_TOKEN_URL=http://localhost:8788/v1/oauth/token
+ *
+ * This script:
+ * 1. Accepts refresh_token grants and issues a new token pair each time
+ * 2. Rejects refresh tokens it has already rotated out (single use, like the real endpoint)
+ * 3. Issues short-lived tokens (EXPIRES_IN seconds) so refreshes happen quickly
+ */
+
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+const PORT = parseInt(process.argv[2] || '8788');
+const EXPIRES_IN = parseInt(process.env.EXPIRES_IN || '900');
+
+// Refresh tokens that have been used and must not be accepted again
+const usedRefreshTokens = new Set<string>();
+
+function token(prefix: string): string {
+  return `${prefix}-${randomBytes(16).toString('hex')}`;
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.url !== '/v1/oauth/token' || req.method !== 'POST') {
+    res.writeHead(404, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ error: 'not_found' }));
+  }
+
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  const { grant_type, refresh_token } = JSON.parse(body || '{}');
+  console.log(`Token request: grant_type=${grant_type} refresh_token=${String(refresh_token).slice(0, 16)}...`);
+
+  if (grant_type !== 'refresh_token' || !refresh_token) {
+    res.writeHead(400, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ error: 'invalid_request' }));
+  }
+
+  if (usedRefreshTokens.has(refresh_token)) {
+    res.writeHead(400, { 'content-type': 'application/json' });
+    return res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Refresh token already used' }));
+  }
+  usedRefreshTokens.add(refresh_token);
+
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({
+    token_type: 'Bearer',
+    access_token: token('sk-ant-oat01-mock'),
+    refresh_token: token('sk-ant-ort01-mock'),
+    expires_in: EXPIRES_IN
+  }));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OAuth token endpoint at http://localhost:${PORT}/v1/oauth/token`);
+  console.log(`Issuing tokens that expire in ${EXPIRES_IN}s`);
+});
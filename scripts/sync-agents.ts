@@ -1,21 +1,23 @@
 /**
  * Sync agents from local ~/.claude/agents/ to R2 bucket
  *
- * Usage: npx tsx scripts/sync-agents.ts
+ * Usage: npx tsx scripts/sync-agents.ts [--dry-run] [--target=<dir>] [--concurrency=<n>]
  *
  * This script:
  * 1. Scans ~/.claude/agents/ for .md files (agent definitions)
- * 2. Generates agents-index.json manifest
- * 3. Uploads all agents to R2 bucket with agents/ prefix
+ * 2. Compares content hashes against the current agents/index.json
+ * 3. Uploads changed agents to R2 bucket with agents/ prefix and prunes removed ones
+ * 4. Uploads the new agents/index.json manifest
  */
 
-import { readdir, readFile, stat, writeFile } from 'fs/promises';
-import { join, basename, dirname } from 'path';
-import { execSync } from 'child_process';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, basename } from 'path';
 import { homedir } from 'os';
+import { createHash } from 'crypto';
+import { parseSyncOptions, planSync, printPlan, applyPlan, removeOrphans, fetchIndex, uploadIndex, type SyncFile } from './sync-storage';
 
 const AGENTS_DIR = join(homedir(), '.claude', 'agents');
-const BUCKET_NAME = 'claude-agents-sdk';
+const INDEX_KEY = 'agents/index.json';
 
 interface AgentMetadata {
   name: string;
@@ -24,6 +26,7 @@ interface AgentMetadata {
   category: string;
   tier?: string;
   size: number;
+  hash: string;
 }
 
 async function findAgents(dir: string): Promise<AgentMetadata[]> {
@@ -67,7 +70,8 @@ async function findAgents(dir: string): Promise<AgentMetadata[]> {
           description: description.substring(0, 200),
           category,
           tier,
-          size: stats.size
+          size: stats.size,
+          hash: createHash('sha256').update(content).digest('hex')
         });
       }
     }
@@ -77,13 +81,8 @@ async function findAgents(dir: string): Promise<AgentMetadata[]> {
   return agents;
 }
 
-async function uploadToR2(localPath: string, r2Key: string) {
-  const cmd = `npx wrangler r2 object put ${BUCKET_NAME}/${r2Key} --file="${localPath}" --remote`;
-  console.log(`Uploading: ${r2Key}`);
-  execSync(cmd, { stdio: 'inherit' });
-}
-
 async function main() {
+  const options = parseSyncOptions();
   console.log(`Scanning agents in ${AGENTS_DIR}...`);
 
   const agents = await findAgents(AGENTS_DIR);
@@ -93,7 +92,25 @@ async function main() {
   const categories = [...new Set(agents.map(a => a.category))];
   console.log(`Categories: ${categories.join(', ')}`);
 
-  // Generate agents-index.json
+  // Diff against the hashes recorded in the current index
+  const previous = await fetchIndex<{ agents?: Array<{ path: string; hash?: string }> }>(options.storage, INDEX_KEY);
+  const previousHashes = new Map((previous?.agents || []).map(a => [`agents/${a.path}`, a.hash || ''] as [string, string]));
+  const files: SyncFile[] = agents.map(a => ({ key: `agents/${a.path}`, localPath: join(AGENTS_DIR, a.path), hash: a.hash }));
+
+  const plan = planSync(files, previousHashes);
+  printPlan(plan, options.storage, options.dryRun);
+
+  if (options.dryRun) {
+    return;
+  }
+  if (previous && plan.upload.length === 0 && plan.remove.length === 0) {
+    console.log('\nAgents already up to date.');
+    return;
+  }
+
+  await applyPlan(plan, options);
+
+  // Generate agents/index.json
   const index = {
     version: '1.0',
     updatedAt: new Date().toISOString(),
@@ -107,23 +124,20 @@ async function main() {
       path: a.path,
       description: a.description,
       category: a.category,
-      tier: a.tier
+      tier: a.tier,
+      hash: a.hash
     }))
   };
 
-  // Write index to temp file and upload
-  const indexPath = '/tmp/agents-index.json';
-  await writeFile(indexPath, JSON.stringify(index, null, 2));
-  await uploadToR2(indexPath, 'agents/index.json');
-
-  // Upload each agent
-  for (const agent of agents) {
-    const localPath = join(AGENTS_DIR, agent.path);
-    await uploadToR2(localPath, `agents/${agent.path}`);
-  }
+  // Upload the index after the new files and before any deletes, so it never points at missing files
+  await uploadIndex(options.storage, INDEX_KEY, index);
+  await removeOrphans(plan, options);
 
-  console.log(`\nSync complete! ${agents.length} agents uploaded.`);
-  console.log('Index available at: agents/index.json');
+  console.log(`\nSync complete! ${plan.upload.length} agents uploaded, ${plan.remove.length} deleted, ${plan.unchanged.length} unchanged.`);
+  console.log(`Index available at: ${INDEX_KEY}`);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
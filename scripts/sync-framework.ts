@@ -1,21 +1,23 @@
 /**
  * Sync framework files from local ~/.claude/framework/ to R2 bucket
  *
- * Usage: npx tsx scripts/sync-framework.ts
+ * Usage: npx tsx scripts/sync-framework.ts [--dry-run] [--target=<dir>] [--concurrency=<n>]
  *
  * This script:
  * 1. Scans ~/.claude/framework/ for all .md files
- * 2. Generates framework-index.json manifest
- * 3. Uploads all framework files to R2 bucket with framework/ prefix
+ * 2. Compares content hashes against the current framework/index.json
+ * 3. Uploads changed files to R2 bucket with framework/ prefix and prunes removed ones
+ * 4. Uploads the new framework/index.json manifest
  */
 
-import { readdir, readFile, stat, writeFile } from 'fs/promises';
+import { readdir, readFile, stat } from 'fs/promises';
 import { join, basename } from 'path';
-import { execSync } from 'child_process';
 import { homedir } from 'os';
+import { createHash } from 'crypto';
+import { parseSyncOptions, planSync, printPlan, applyPlan, removeOrphans, fetchIndex, uploadIndex, type SyncFile } from './sync-storage';
 
 const FRAMEWORK_DIR = join(homedir(), '.claude', 'framework');
-const BUCKET_NAME = 'claude-agents-sdk';
+const INDEX_KEY = 'framework/index.json';
 
 interface FrameworkMetadata {
   name: string;
@@ -23,6 +25,7 @@ interface FrameworkMetadata {
   description: string;
   category: string;
   size: number;
+  hash: string;
 }
 
 async function findFrameworkFiles(dir: string): Promise<FrameworkMetadata[]> {
@@ -53,7 +56,8 @@ async function findFrameworkFiles(dir: string): Promise<FrameworkMetadata[]> {
         path: entry.name,
         description: description.substring(0, 200),
         category,
-        size: stats.size
+        size: stats.size,
+        hash: createHash('sha256').update(content).digest('hex')
       });
     }
   }
@@ -61,13 +65,8 @@ async function findFrameworkFiles(dir: string): Promise<FrameworkMetadata[]> {
   return files;
 }
 
-async function uploadToR2(localPath: string, r2Key: string) {
-  const cmd = `npx wrangler r2 object put ${BUCKET_NAME}/${r2Key} --file="${localPath}" --remote`;
-  console.log(`Uploading: ${r2Key}`);
-  execSync(cmd, { stdio: 'inherit' });
-}
-
 async function main() {
+  const options = parseSyncOptions();
   console.log(`Scanning framework files in ${FRAMEWORK_DIR}...`);
 
   const files = await findFrameworkFiles(FRAMEWORK_DIR);
@@ -77,7 +76,25 @@ async function main() {
   const categories = [...new Set(files.map(f => f.category))];
   console.log(`Categories: ${categories.join(', ')}`);
 
-  // Generate framework-index.json
+  // Diff against the hashes recorded in the current index
+  const previous = await fetchIndex<{ files?: Array<{ path: string; hash?: string }> }>(options.storage, INDEX_KEY);
+  const previousHashes = new Map((previous?.files || []).map(f => [`framework/${f.path}`, f.hash || ''] as [string, string]));
+  const syncFiles: SyncFile[] = files.map(f => ({ key: `framework/${f.path}`, localPath: join(FRAMEWORK_DIR, f.path), hash: f.hash }));
+
+  const plan = planSync(syncFiles, previousHashes);
+  printPlan(plan, options.storage, options.dryRun);
+
+  if (options.dryRun) {
+    return;
+  }
+  if (previous && plan.upload.length === 0 && plan.remove.length === 0) {
+    console.log('\nFramework files already up to date.');
+    return;
+  }
+
+  await applyPlan(plan, options);
+
+  // Generate framework/index.json
   const index = {
     version: '1.0',
     updatedAt: new Date().toISOString(),
@@ -90,23 +107,20 @@ async function main() {
       name: f.name,
       path: f.path,
       description: f.description,
-      category: f.category
+      category: f.category,
+      hash: f.hash
     }))
   };
 
-  // Write index to temp file and upload
-  const indexPath = '/tmp/framework-index.json';
-  await writeFile(indexPath, JSON.stringify(index, null, 2));
-  await uploadToR2(indexPath, 'framework/index.json');
-
-  // Upload each framework file
-  for (const file of files) {
-    const localPath = join(FRAMEWORK_DIR, file.path);
-    await uploadToR2(localPath, `framework/${file.path}`);
-  }
+  // Upload the index after the new files and before any deletes, so it never points at missing files
+  await uploadIndex(options.storage, INDEX_KEY, index);
+  await removeOrphans(plan, options);
 
-  console.log(`\nSync complete! ${files.length} framework files uploaded.`);
-  console.log('Index available at: framework/index.json');
+  console.log(`\nSync complete! ${plan.upload.length} framework files uploaded, ${plan.remove.length} deleted, ${plan.unchanged.length} unchanged.`);
+  console.log(`Index available at: ${INDEX_KEY}`);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,275 @@
+/**
+ * Sync skills from local ~/.claude/skills/ to R2 bucket
+ *
+ * Usage: npx tsx scripts/sync-skills.ts [--dry-run] [--target=<dir>] [--concurrency=<n>]
+ *
+ * This script:
+ * 1. Scans ~/.claude/skills/ for skill directories (SKILL.md plus supporting files)
+ * 2. Parses SKILL.md frontmatter and hashes each skill's files
+ * 3. Uploads new versions to R2 under skills/<name>/<version>/
+ * 4. Prunes every version of skills that no longer exist locally
+ * 5. Writes index.json, keeping previous versions so /query can pin skill@version
+ *
+ * A skill's version comes from its frontmatter `version` field. Without one,
+ * versions are numbered automatically and bumped whenever the content hash changes.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join, relative, basename, dirname } from 'path';
+import { createHash } from 'crypto';
+import { homedir } from 'os';
+import { parseSyncOptions, printPlan, applyPlan, removeOrphans, fetchIndex, uploadIndex, type SyncPlan } from './sync-storage';
+
+const SKILLS_DIR = join(homedir(), '.claude', 'skills');
+const INDEX_KEY = 'index.json';
+
+interface SkillVersion {
+  version: string;
+  hash: string;
+  path: string;
+  files: string[];
+  createdAt: string;
+}
+
+interface SkillMetadata {
+  name: string;
+  dir: string;
+  description: string;
+  category: string;
+  declaredVersion?: string;
+  hash: string;
+  files: string[];
+}
+
+interface SkillIndexEntry {
+  name: string;
+  path: string;
+  description: string;
+  category: string;
+  version: string;
+  hash: string;
+  files: string[];
+  versions: SkillVersion[];
+}
+
+interface SkillIndex {
+  version: string;
+  updatedAt: string;
+  count: number;
+  categories: Array<{ name: string; count: number }>;
+  skills: SkillIndexEntry[];
+}
+
+/**
+ * Parse simple `key: value` YAML frontmatter from SKILL.md
+ */
+function parseFrontmatter(content: string): Record<string, string> {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match) return {};
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z_-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return fields;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Hash every file in a skill (path and content) so any change produces a new version
+ */
+async function hashSkill(dir: string, files: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const file of [...files].sort()) {
+    hash.update(relative(dir, file));
+    hash.update('\0');
+    hash.update(await readFile(file));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+async function findSkills(dir: string): Promise<SkillMetadata[]> {
+  const skills: SkillMetadata[] = [];
+  const skillFiles = (await listFiles(dir)).filter(f => basename(f) === 'SKILL.md');
+
+  for (const skillFile of skillFiles) {
+    const skillDir = dirname(skillFile);
+    const content = await readFile(skillFile, 'utf-8');
+    const frontmatter = parseFrontmatter(content);
+
+    // Nested layouts (category/skill/SKILL.md) use the parent directory as category
+    const parent = relative(dir, dirname(skillDir));
+    const category = frontmatter.category || (parent && parent !== '.' ? parent : 'general');
+
+    // Only this skill's files, not those of skills nested below it
+    const files = (await listFiles(skillDir)).filter(f =>
+      !skillFiles.some(other => other !== skillFile && f.startsWith(dirname(other) + '/') && dirname(other) !== skillDir)
+    );
+
+    skills.push({
+      name: frontmatter.name || basename(skillDir),
+      dir: skillDir,
+      description: (frontmatter.description || 'No description').substring(0, 200),
+      category,
+      declaredVersion: frontmatter.version,
+      hash: await hashSkill(skillDir, files),
+      files: files.map(f => relative(skillDir, f))
+    });
+  }
+
+  return skills;
+}
+
+/**
+ * Decide the version for a skill, given the versions already published
+ * Returns null if the content matches the latest version (nothing to upload)
+ */
+function nextVersion(skill: SkillMetadata, previous: SkillVersion[]): string | null {
+  const latest = previous[previous.length - 1];
+  if (latest && latest.hash === skill.hash) {
+    return null;
+  }
+
+  if (skill.declaredVersion) {
+    const existing = previous.find(v => v.version === skill.declaredVersion);
+    if (existing) {
+      throw new Error(`Skill '${skill.name}' changed but version ${skill.declaredVersion} is already published - bump its version`);
+    }
+    return skill.declaredVersion;
+  }
+
+  const numbered = previous.map(v => parseInt(v.version)).filter(n => !isNaN(n));
+  return String(numbered.length > 0 ? Math.max(...numbered) + 1 : 1);
+}
+
+async function main() {
+  const options = parseSyncOptions();
+  console.log(`Scanning skills in ${SKILLS_DIR}...`);
+
+  const skills = await findSkills(SKILLS_DIR);
+  console.log(`Found ${skills.length} skills`);
+
+  const duplicate = skills.find((s, i) => skills.findIndex(o => o.name === s.name) !== i);
+  if (duplicate) {
+    throw new Error(`Duplicate skill name '${duplicate.name}'`);
+  }
+
+  // Published versions are immutable and pinned by callers, so an index that cannot be read aborts the sync
+  // rather than restarting numbering at 1 over them
+  const remoteIndex = await fetchIndex<SkillIndex>(options.storage, INDEX_KEY);
+  if (remoteIndex && !Array.isArray(remoteIndex.skills)) {
+    throw new Error(`Existing ${INDEX_KEY} has no skills list - fix or remove it before syncing`);
+  }
+  const entries: SkillIndexEntry[] = [];
+  const plan: SyncPlan = { upload: [], unchanged: [], remove: [] };
+  let published = 0;
+
+  for (const skill of skills) {
+    const previous = remoteIndex?.skills.find(s => s.name === skill.name)?.versions || [];
+    const version = nextVersion(skill, previous);
+    const versions = [...previous];
+
+    if (version) {
+      // Versions are immutable, so a new version is always a full upload of the skill
+      const prefix = `skills/${skill.name}/${version}`;
+      for (const file of skill.files) {
+        const localPath = join(skill.dir, file);
+        plan.upload.push({ key: `${prefix}/${file}`, localPath, hash: skill.hash });
+      }
+      versions.push({
+        version,
+        hash: skill.hash,
+        path: `${prefix}/SKILL.md`,
+        files: skill.files,
+        createdAt: new Date().toISOString()
+      });
+      published++;
+      console.log(`New version: ${skill.name}@${version}`);
+    } else {
+      const prefix = `skills/${skill.name}/${previous[previous.length - 1].version}`;
+      for (const file of skill.files) {
+        plan.unchanged.push({ key: `${prefix}/${file}`, localPath: join(skill.dir, file), hash: skill.hash });
+      }
+    }
+
+    const latest = versions[versions.length - 1];
+    entries.push({
+      name: skill.name,
+      path: latest.path,
+      description: skill.description,
+      category: skill.category,
+      version: latest.version,
+      hash: latest.hash,
+      files: latest.files,
+      versions
+    });
+  }
+
+  // Skills deleted locally lose all their versions
+  for (const removed of remoteIndex?.skills || []) {
+    if (skills.some(s => s.name === removed.name)) continue;
+    for (const v of removed.versions || []) {
+      const prefix = v.path.slice(0, -'SKILL.md'.length);
+      plan.remove.push(...(v.files || ['SKILL.md']).map(f => `${prefix}${f}`));
+    }
+  }
+
+  printPlan(plan, options.storage, options.dryRun);
+
+  if (options.dryRun) {
+    return;
+  }
+  if (remoteIndex && published === 0 && plan.remove.length === 0) {
+    console.log('\nSkills already up to date.');
+    return;
+  }
+
+  await applyPlan(plan, options);
+
+  const categories = [...new Set(entries.map(s => s.category))];
+  console.log(`Categories: ${categories.join(', ')}`);
+
+  // Generate index.json
+  const index: SkillIndex = {
+    version: '2.0',
+    updatedAt: new Date().toISOString(),
+    count: entries.length,
+    categories: categories.map(cat => ({
+      name: cat,
+      count: entries.filter(s => s.category === cat).length
+    })),
+    skills: entries
+  };
+
+  // Upload the index after the new files and before any deletes, so it never points at missing files
+  await uploadIndex(options.storage, INDEX_KEY, index);
+  await removeOrphans(plan, options);
+
+  console.log(`\nSync complete! ${published} new skill versions, ${plan.upload.length} files uploaded, ${plan.remove.length} deleted.`);
+  console.log(`Index available at: ${INDEX_KEY}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,255 @@
+/**
+ * Shared storage and diff helpers for the R2 sync scripts
+ *
+ * Each sync script builds a list of local files with content hashes, compares them
+ * against the hashes recorded in the index it uploaded last time, and only uploads
+ * what changed. Objects listed in the previous index that no longer exist locally
+ * are pruned.
+ *
+ * Common flags:
+ *   --dry-run          Print the planned diff without writing anything
+ *   --target=<dir>     Sync into a local directory instead of R2 (for tests)
+ *   --concurrency=<n>  Parallel uploads/deletes (default 8)
+ */
+
+import { readFile, writeFile, mkdir, rm, copyFile } from 'fs/promises';
+import { join, dirname, resolve } from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+
+const execAsync = promisify(exec);
+
+// What wrangler prints when an object is missing; any other failure must not look like an empty bucket
+const R2_NOT_FOUND = /The specified key does not exist|NoSuchKey/;
+
+export const BUCKET_NAME = 'claude-agents-sdk';
+
+/**
+ * Where synced objects are stored
+ */
+export interface SyncStorage {
+  readonly name: string;
+  // null only if the object does not exist; other failures throw
+  get(key: string): Promise<string | null>;
+  put(key: string, localPath: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * R2 bucket, accessed through wrangler
+ */
+export class R2Storage implements SyncStorage {
+  readonly name: string;
+
+  constructor(private bucket: string = BUCKET_NAME) {
+    this.name = `r2://${bucket}`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync(`npx wrangler r2 object get ${this.bucket}/${key} --pipe --remote`, {
+        maxBuffer: 64 * 1024 * 1024
+      });
+      return stdout;
+    } catch (error: any) {
+      if (R2_NOT_FOUND.test(`${error.stderr ?? ''}${error.stdout ?? ''}`)) {
+        return null;
+      }
+      throw new Error(`Failed to read ${this.bucket}/${key}: ${error.stderr || error.message}`);
+    }
+  }
+
+  async put(key: string, localPath: string): Promise<void> {
+    await execAsync(`npx wrangler r2 object put ${this.bucket}/${key} --file="${localPath}" --remote`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await execAsync(`npx wrangler r2 object delete ${this.bucket}/${key} --remote`);
+  }
+}
+
+/**
+ * Local directory laid out like the bucket, so syncs can be tested without R2
+ */
+export class LocalStorage implements SyncStorage {
+  readonly name: string;
+
+  constructor(private root: string) {
+    this.root = resolve(root);
+    this.name = `file://${this.root}`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await readFile(join(this.root, key), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, localPath: string): Promise<void> {
+    const target = join(this.root, key);
+    await mkdir(dirname(target), { recursive: true });
+    await copyFile(localPath, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(join(this.root, key), { force: true });
+  }
+}
+
+export interface SyncOptions {
+  dryRun: boolean;
+  concurrency: number;
+  storage: SyncStorage;
+}
+
+/**
+ * Parse the common sync flags from argv
+ */
+export function parseSyncOptions(argv: string[] = process.argv.slice(2)): SyncOptions {
+  let dryRun = false;
+  let concurrency = 8;
+  let target: string | undefined;
+
+  for (const arg of argv) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--target=')) {
+      target = arg.slice('--target='.length);
+    } else if (arg.startsWith('--concurrency=')) {
+      concurrency = Math.max(1, parseInt(arg.slice('--concurrency='.length)) || 1);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return {
+    dryRun,
+    concurrency,
+    storage: target ? new LocalStorage(target) : new R2Storage()
+  };
+}
+
+export async function hashFile(path: string): Promise<string> {
+  return createHash('sha256').update(await readFile(path)).digest('hex');
+}
+
+/**
+ * A local file to be synced to `key`
+ */
+export interface SyncFile {
+  key: string;
+  localPath: string;
+  hash: string;
+}
+
+export interface SyncPlan {
+  upload: SyncFile[];
+  unchanged: SyncFile[];
+  remove: string[];
+}
+
+/**
+ * Compare local files against the key -> hash map from the previous index
+ */
+export function planSync(files: SyncFile[], previous: Map<string, string>): SyncPlan {
+  const plan: SyncPlan = { upload: [], unchanged: [], remove: [] };
+  const localKeys = new Set(files.map(f => f.key));
+
+  for (const file of files) {
+    if (previous.get(file.key) === file.hash) {
+      plan.unchanged.push(file);
+    } else {
+      plan.upload.push(file);
+    }
+  }
+
+  for (const key of previous.keys()) {
+    if (!localKeys.has(key)) {
+      plan.remove.push(key);
+    }
+  }
+
+  return plan;
+}
+
+export function printPlan(plan: SyncPlan, storage: SyncStorage, dryRun: boolean) {
+  console.log(`\n${dryRun ? 'Planned changes' : 'Changes'} for ${storage.name}:`);
+  for (const file of plan.upload) {
+    console.log(`  + ${file.key}`);
+  }
+  for (const key of plan.remove) {
+    console.log(`  - ${key}`);
+  }
+  console.log(`  ${plan.upload.length} to upload, ${plan.remove.length} to delete, ${plan.unchanged.length} unchanged`);
+}
+
+/**
+ * Run fn over items with at most `limit` in flight
+ */
+export async function runParallel<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Upload a sync plan's changed files
+ * Call removeOrphans once the new index is uploaded, so the live index never points at deleted files
+ */
+export async function applyPlan(plan: SyncPlan, options: SyncOptions) {
+  const { storage, concurrency } = options;
+
+  await runParallel(plan.upload, concurrency, async (file) => {
+    console.log(`Uploading: ${file.key}`);
+    await storage.put(file.key, file.localPath);
+  });
+}
+
+/**
+ * Delete the objects a sync plan no longer needs
+ */
+export async function removeOrphans(plan: SyncPlan, options: SyncOptions) {
+  const { storage, concurrency } = options;
+
+  await runParallel(plan.remove, concurrency, async (key) => {
+    console.log(`Deleting: ${key}`);
+    await storage.delete(key);
+  });
+}
+
+/**
+ * Fetch and parse a JSON index, or null if it does not exist yet
+ * An index that exists but cannot be read aborts the sync: starting fresh would forget what is published
+ */
+export async function fetchIndex<T>(storage: SyncStorage, key: string): Promise<T | null> {
+  const text = await storage.get(key);
+  if (text === null) {
+    console.log(`No existing ${key} found, starting fresh`);
+    return null;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`Existing ${key} is not valid JSON - fix or remove it before syncing`);
+  }
+}
+
+/**
+ * Write an index to a temp file and upload it
+ */
+export async function uploadIndex(storage: SyncStorage, key: string, index: unknown) {
+  const tmpPath = join('/tmp', key.replace(/\//g, '-'));
+  await writeFile(tmpPath, JSON.stringify(index, null, 2));
+  console.log(`Uploading: ${key}`);
+  await storage.put(key, tmpPath);
+}
@@ -1,5 +1,12 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { DurableObject } from "cloudflare:workers";
 import { Container } from "@cloudflare/containers";
+import { createLogger, setLogLevel, withLogContext, startTrace, traceHeaders, traceFields, type TraceContext } from "./container/logger";
+// Generated by npm run prebuild; the container image is built with the same file
+import BUNDLED_FRAMEWORK from "./framework-context.txt";
+
+const log = createLogger("worker");
 
 /**
  * Timing-safe string comparison to prevent timing attacks
@@ -15,514 +22,6444 @@ function timingSafeEqual(a: string, b: string): boolean {
   return result === 0;
 }
 
+type ApiKeyScope = "query" | "read-catalog" | "admin";
+
+const API_KEY_SCOPES: ApiKeyScope[] = ["query", "read-catalog", "admin"];
+
 /**
- * Validate API key from request headers
- * Returns error Response if invalid, null if valid
+ * Who is calling, and what they may do
+ * null accountIds/skills means unrestricted
  */
-function validateApiKey(request: Request, apiKey: string | undefined): Response | null {
-  if (!apiKey) {
-    console.log('[Auth] WORKER_API_KEY not configured');
-    return new Response(JSON.stringify({
-      error: 'Unauthorized',
-      message: 'Server configuration error: API key not set'
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  accountIds: string[] | null;
+  skills: string[] | null;
+}
+
+/**
+ * The shared WORKER_API_KEY keeps full access so existing clients and admin bootstrap still work
+ */
+const SHARED_KEY_IDENTITY: ApiKeyIdentity = {
+  id: "shared",
+  name: "WORKER_API_KEY",
+  scopes: API_KEY_SCOPES,
+  accountIds: null,
+  skills: null
+};
+
+function authErrorResponse(status: 401 | 403 | 500, message: string): Response {
+  return new Response(JSON.stringify({
+    error: status === 403 ? 'Forbidden' : 'Unauthorized',
+    message
+  }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * SHA-256 hex digest - API keys are only ever stored hashed
+ */
+async function sha256Hex(value: string | ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', typeof value === 'string' ? new TextEncoder().encode(value) : value);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * HMAC-SHA256 hex digest, for signing outbound webhooks
+ */
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * AES-GCM key derived from a secret binding, for values that must be stored encrypted
+ */
+async function secretKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt a value as base64(iv || ciphertext)
+ */
+async function encryptSecret(secret: string, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await secretKey(secret), new TextEncoder().encode(plaintext));
+  const bytes = new Uint8Array(iv.length + ciphertext.byteLength);
+  bytes.set(iv);
+  bytes.set(new Uint8Array(ciphertext), iv.length);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function decryptSecret(secret: string, encrypted: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(encrypted), ch => ch.charCodeAt(0));
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, await secretKey(secret), bytes.slice(12));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Authenticate the x-api-key header and check it grants the required scope
+ * Accepts the shared WORKER_API_KEY (legacy API_KEY) or a key from the KeyRegistry
+ */
+async function authenticateRequest(request: Request, env: Bindings, scope: ApiKeyScope): Promise<{ key: ApiKeyIdentity } | { response: Response }> {
+  const sharedKey = env.WORKER_API_KEY || env.API_KEY; // Fallback to legacy API_KEY
+  if (!sharedKey && !env.KEY_REGISTRY) {
+    log.warn("WORKER_API_KEY not configured");
+    return { response: authErrorResponse(500, 'Server configuration error: API key not set') };
   }
 
   const providedKey = request.headers.get('x-api-key');
 
   if (!providedKey) {
-    console.log('[Auth] Missing API key in request');
-    return new Response(JSON.stringify({
-      error: 'Unauthorized',
-      message: 'Missing x-api-key header'
-    }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    log.warn("Missing API key in request");
+    return { response: authErrorResponse(401, 'Missing x-api-key header') };
   }
 
-  if (!timingSafeEqual(providedKey, apiKey)) {
-    console.log('[Auth] Invalid API key attempt');
-    return new Response(JSON.stringify({
-      error: 'Unauthorized',
-      message: 'Invalid API key'
-    }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' }
-    });
+  let key: ApiKeyIdentity | null = null;
+  if (sharedKey && timingSafeEqual(providedKey, sharedKey)) {
+    key = SHARED_KEY_IDENTITY;
+  } else if (env.KEY_REGISTRY) {
+    key = await getKeyRegistry(env).verifyKey(await sha256Hex(providedKey));
+  }
+
+  if (!key) {
+    log.warn("Invalid API key attempt");
+    return { response: authErrorResponse(401, 'Invalid API key') };
+  }
+
+  if (!key.scopes.includes(scope)) {
+    log.warn("API key lacks scope", { keyId: key.id, scope });
+    return { response: authErrorResponse(403, `API key does not have the '${scope}' scope`) };
   }
 
-  return null; // Auth passed
+  return { key };
 }
 
-export class AgentContainer extends Container {
-  defaultPort = 8080;
-  sleepAfter = "5m";
+// Account ids name Durable Objects and R2 key prefixes, so "a/b" must not reach into account "a"
+const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
 
-  constructor(ctx: DurableObjectState, env: any) {
+function isValidAccountId(accountId: unknown): accountId is string {
+  return typeof accountId === "string" && ACCOUNT_ID_PATTERN.test(accountId);
+}
+
+function isAccountAllowed(key: ApiKeyIdentity, accountId: string): boolean {
+  return !key.accountIds || key.accountIds.includes(accountId);
+}
+
+function isSkillAllowed(key: ApiKeyIdentity, skill: string): boolean {
+  return !key.skills || key.skills.includes(parseSkillRef(skill).name);
+}
+
+/**
+ * Stored API key, as shown to admins (never includes the key or its hash)
+ */
+interface ApiKeyRecord extends ApiKeyIdentity {
+  prefix: string;
+  expiresAt: string | null;
+  createdAt: string;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  account_ids: string | null;
+  skills: string | null;
+  expires_at: number | null;
+  created_at: number;
+  rotated_at: number | null;
+  revoked_at: number | null;
+  last_used_at: number | null;
+};
+
+/**
+ * Registry of scoped API keys, stored hashed in a single SQLite-backed Durable Object
+ */
+export class KeyRegistry extends DurableObject<Bindings> {
+  constructor(ctx: DurableObjectState, env: Bindings) {
+    super(ctx, env);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        previous_key_hash TEXT,
+        previous_expires_at INTEGER,
+        scopes TEXT NOT NULL,
+        account_ids TEXT,
+        skills TEXT,
+        expires_at INTEGER,
+        created_at INTEGER NOT NULL,
+        rotated_at INTEGER,
+        revoked_at INTEGER,
+        last_used_at INTEGER
+      );
+    `);
+  }
+
+  /**
+   * Create a key; the plaintext is returned once and never stored
+   */
+  async createKey(input: {
+    name: string;
+    scopes: ApiKeyScope[];
+    accountIds: string[] | null;
+    skills: string[] | null;
+    expiresAt: number | null;
+  }): Promise<{ record: ApiKeyRecord; key: string }> {
+    const id = crypto.randomUUID();
+    const key = this.generateKey();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, account_ids, skills, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id, input.name, key.slice(0, 12), await sha256Hex(key),
+      JSON.stringify(input.scopes),
+      input.accountIds ? JSON.stringify(input.accountIds) : null,
+      input.skills ? JSON.stringify(input.skills) : null,
+      input.expiresAt, Date.now()
+    );
+    return { record: (await this.getKey(id))!, key };
+  }
+
+  async getKey(id: string): Promise<ApiKeyRecord | null> {
+    const rows = this.ctx.storage.sql.exec<ApiKeyRow>(`SELECT * FROM api_keys WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? this.toRecord(rows[0]) : null;
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    return this.ctx.storage.sql.exec<ApiKeyRow>(`SELECT * FROM api_keys ORDER BY created_at`)
+      .toArray()
+      .map(row => this.toRecord(row));
+  }
+
+  /**
+   * Look up an active key by hash
+   * A rotated-out key keeps working until its grace period ends
+   */
+  async verifyKey(keyHash: string): Promise<ApiKeyIdentity | null> {
+    const now = Date.now();
+    const rows = this.ctx.storage.sql.exec<ApiKeyRow>(
+      `SELECT * FROM api_keys
+       WHERE (key_hash = ? OR (previous_key_hash = ? AND previous_expires_at > ?))
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)`,
+      keyHash, keyHash, now, now
+    ).toArray();
+    if (rows.length === 0) {
+      return null;
+    }
+
+    this.ctx.storage.sql.exec(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`, now, rows[0].id);
+    const { id, name, scopes, accountIds, skills } = this.toRecord(rows[0]);
+    return { id, name, scopes, accountIds, skills };
+  }
+
+  /**
+   * Issue a new secret for an existing key, keeping its permissions
+   */
+  async rotateKey(id: string, gracePeriodMs: number): Promise<{ record: ApiKeyRecord; key: string } | null> {
+    const existing = await this.getKey(id);
+    if (!existing || existing.revokedAt) {
+      return null;
+    }
+
+    const now = Date.now();
+    const key = this.generateKey();
+    this.ctx.storage.sql.exec(
+      `UPDATE api_keys
+       SET previous_key_hash = key_hash, previous_expires_at = ?, key_hash = ?, prefix = ?, rotated_at = ?
+       WHERE id = ?`,
+      gracePeriodMs > 0 ? now + gracePeriodMs : null, await sha256Hex(key), key.slice(0, 12), now, id
+    );
+    return { record: (await this.getKey(id))!, key };
+  }
+
+  async revokeKey(id: string): Promise<ApiKeyRecord | null> {
+    this.ctx.storage.sql.exec(
+      `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?`, Date.now(), id
+    );
+    return this.getKey(id);
+  }
+
+  private generateKey(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return `cak_${[...bytes].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  private toRecord(row: ApiKeyRow): ApiKeyRecord {
+    const toIso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes),
+      accountIds: row.account_ids ? JSON.parse(row.account_ids) : null,
+      skills: row.skills ? JSON.parse(row.skills) : null,
+      expiresAt: toIso(row.expires_at),
+      createdAt: new Date(row.created_at).toISOString(),
+      rotatedAt: toIso(row.rotated_at),
+      revokedAt: toIso(row.revoked_at),
+      lastUsedAt: toIso(row.last_used_at)
+    };
+  }
+}
+
+/**
+ * OAuth credentials for Max subscription auth
+ * expiresAt is epoch milliseconds
+ */
+interface OAuthCredentials {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+// Claude Code's public OAuth client, used unless OAUTH_CLIENT_ID is set
+const DEFAULT_OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
+const DEFAULT_OAUTH_TOKEN_URL = "https://console.anthropic.com/v1/oauth/token";
+// Refresh this long before expiry so a run never starts with a token about to lapse
+const OAUTH_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+type CredentialRow = {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+  seed_hash: string | null;
+  updated_at: number;
+  last_error: string | null;
+};
+
+/**
+ * Holds the subscription OAuth tokens and refreshes them before they expire
+ * Rotated tokens live here, so the static secrets only seed it
+ */
+export class CredentialStore extends DurableObject<Bindings> {
+  private refreshing: Promise<OAuthCredentials | null> | null = null;
+
+  constructor(ctx: DurableObjectState, env: Bindings) {
     super(ctx, env);
-    // Check if OAuth credentials are valid (not expired)
-    const expiresAt = parseInt(env.CLAUDE_EXPIRES_AT || "0");
-    const isOAuthValid = !!(env.CLAUDE_ACCESS_TOKEN && env.CLAUDE_REFRESH_TOKEN && expiresAt > Date.now());
-
-    // Pass OAuth credentials for Max subscription auth (preferred) if valid
-    // Falls back to API key if OAuth not configured or expired
-    this.envVars = {
-      // OAuth credentials for Max subscription (only if valid)
-      CLAUDE_ACCESS_TOKEN: isOAuthValid ? (env.CLAUDE_ACCESS_TOKEN || "") : "",
-      CLAUDE_REFRESH_TOKEN: isOAuthValid ? (env.CLAUDE_REFRESH_TOKEN || "") : "",
-      CLAUDE_EXPIRES_AT: isOAuthValid ? (env.CLAUDE_EXPIRES_AT || "") : "",
-      // Fallback API key
-      ANTHROPIC_API_KEY: env.ANTHROPIC_API_KEY || "",
-      // Model selection
-      MODEL: env.MODEL || "claude-sonnet-4-5",
-      // Subscription auth flags (only enable if OAuth is valid)
-      CLAUDE_USE_SUBSCRIPTION: isOAuthValid ? "true" : "false",
-      CLAUDE_BYPASS_BALANCE_CHECK: "true",
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS oauth_credentials (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        seed_hash TEXT,
+        updated_at INTEGER NOT NULL,
+        last_error TEXT
+      );
+    `);
+  }
+
+  /**
+   * Current credentials, refreshed first if they are close to expiry
+   * Returns null if there are none or they expired and could not be refreshed
+   */
+  async getCredentials(): Promise<OAuthCredentials | null> {
+    const row = await this.load();
+    if (!row) {
+      return null;
+    }
+
+    if (row.expires_at - OAUTH_REFRESH_MARGIN_MS > Date.now()) {
+      return this.toCredentials(row);
+    }
+
+    const refreshed = await this.refresh();
+    if (refreshed) {
+      return refreshed;
+    }
+
+    // A failed refresh still leaves the old token usable until it actually expires
+    return row.expires_at > Date.now() ? this.toCredentials(row) : null;
+  }
+
+  /**
+   * Stored token status, read as-is: never seeds, refreshes or schedules anything, so it is safe to expose
+   */
+  async getStatus() {
+    const row = this.ctx.storage.sql.exec<CredentialRow>(`SELECT * FROM oauth_credentials WHERE id = 1`).toArray()[0];
+    return {
+      configured: !!row,
+      expiresAt: row ? new Date(row.expires_at).toISOString() : null,
+      updatedAt: row ? new Date(row.updated_at).toISOString() : null,
+      lastError: row?.last_error ?? null
     };
   }
 
-  override onStart() {
-    console.log("[Container] Started", {
-      timestamp: new Date().toISOString(),
-      port: this.defaultPort,
-      sleepAfter: this.sleepAfter,
-      authMode: this.envVars.CLAUDE_ACCESS_TOKEN ? "subscription" : "api_key"
-    });
+  /**
+   * Replace the stored tokens, e.g. after a fresh `claude setup-token`
+   */
+  async setCredentials(credentials: OAuthCredentials): Promise<void> {
+    this.save(credentials, null);
+    await this.scheduleRefresh(credentials.expiresAt);
   }
 
-  override onStop(status: any) {
-    console.log("[Container] Stopped", {
-      reason: status?.reason,
-      exitCode: status?.exitCode,
-      timestamp: new Date().toISOString()
-    });
+  /**
+   * Exchange the refresh token for a new token pair
+   * Concurrent callers share one request, since refresh tokens are single use
+   */
+  async refresh(): Promise<OAuthCredentials | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  override async alarm() {
+    log.info("Scheduled OAuth token refresh");
+    await this.refresh();
+  }
+
+  private async doRefresh(): Promise<OAuthCredentials | null> {
+    const row = await this.load();
+    if (!row) {
+      return null;
+    }
+
+    try {
+      const res = await fetch(this.env.OAUTH_TOKEN_URL || DEFAULT_OAUTH_TOKEN_URL, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          grant_type: "refresh_token",
+          refresh_token: row.refresh_token,
+          client_id: this.env.OAUTH_CLIENT_ID || DEFAULT_OAUTH_CLIENT_ID
+        })
+      });
+      if (!res.ok) {
+        throw new Error(`Token endpoint returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      }
+
+      const data = await res.json() as { access_token?: string; refresh_token?: string; expires_in?: number };
+      if (!data.access_token || !data.expires_in) {
+        throw new Error("Token endpoint response is missing access_token or expires_in");
+      }
+
+      const credentials: OAuthCredentials = {
+        accessToken: data.access_token,
+        // Some servers keep the refresh token unchanged and omit it
+        refreshToken: data.refresh_token || row.refresh_token,
+        expiresAt: Date.now() + data.expires_in * 1000
+      };
+      this.save(credentials, row.seed_hash);
+      await this.scheduleRefresh(credentials.expiresAt);
+
+      log.info("OAuth access token refreshed", { expiresAt: new Date(credentials.expiresAt).toISOString() });
+      return credentials;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error("OAuth token refresh failed", { error: message });
+      this.ctx.storage.sql.exec(`UPDATE oauth_credentials SET last_error = ? WHERE id = 1`, message);
+      return null;
+    }
+  }
+
+  /**
+   * Load stored tokens, seeding from the CLAUDE_* secrets on first use
+   * or when those secrets have been replaced since the last seed
+   */
+  private async load(): Promise<CredentialRow | null> {
+    const rows = this.ctx.storage.sql.exec<CredentialRow>(`SELECT * FROM oauth_credentials WHERE id = 1`).toArray();
+    const { CLAUDE_ACCESS_TOKEN, CLAUDE_REFRESH_TOKEN, CLAUDE_EXPIRES_AT } = this.env;
+
+    if (CLAUDE_ACCESS_TOKEN && CLAUDE_REFRESH_TOKEN) {
+      const seedHash = await sha256Hex(`${CLAUDE_ACCESS_TOKEN}:${CLAUDE_REFRESH_TOKEN}`);
+      if (rows.length === 0 || rows[0].seed_hash !== seedHash) {
+        log.info("Seeding OAuth credentials from secrets");
+        const credentials: OAuthCredentials = {
+          accessToken: CLAUDE_ACCESS_TOKEN,
+          refreshToken: CLAUDE_REFRESH_TOKEN,
+          expiresAt: parseInt(CLAUDE_EXPIRES_AT || "0") || 0
+        };
+        this.save(credentials, seedHash);
+        await this.scheduleRefresh(credentials.expiresAt);
+        return this.ctx.storage.sql.exec<CredentialRow>(`SELECT * FROM oauth_credentials WHERE id = 1`).one();
+      }
+    }
+
+    return rows[0] ?? null;
+  }
+
+  private save(credentials: OAuthCredentials, seedHash: string | null) {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO oauth_credentials (id, access_token, refresh_token, expires_at, seed_hash, updated_at, last_error)
+       VALUES (1, ?, ?, ?, ?, ?, NULL)
+       ON CONFLICT(id) DO UPDATE SET
+         access_token = excluded.access_token,
+         refresh_token = excluded.refresh_token,
+         expires_at = excluded.expires_at,
+         seed_hash = COALESCE(excluded.seed_hash, oauth_credentials.seed_hash),
+         updated_at = excluded.updated_at,
+         last_error = NULL`,
+      credentials.accessToken, credentials.refreshToken, credentials.expiresAt, seedHash, Date.now()
+    );
+  }
+
+  private async scheduleRefresh(expiresAt: number) {
+    await this.ctx.storage.setAlarm(Math.max(Date.now(), expiresAt - OAUTH_REFRESH_MARGIN_MS));
+  }
+
+  private toCredentials(row: CredentialRow): OAuthCredentials {
+    return { accessToken: row.access_token, refreshToken: row.refresh_token, expiresAt: row.expires_at };
+  }
+}
+
+type RunOutcome = "success" | "error" | "cancelled" | "rejected";
+
+/**
+ * One request's contribution to the metrics, recorded once it has finished
+ * containerStartMs and cliMs are null when the request never reached the container
+ */
+interface RunSample {
+  accountId: string;
+  source: "query" | "session" | "job";
+  route: TriageRoute;
+  authMode: string;
+  skill: string | null;
+  model: string | null;
+  outcome: RunOutcome;
+  exitCode: number | null;
+  coldStart: boolean;
+  containerStartMs: number | null;
+  cliMs: number | null;
+  totalMs: number;
+  metadata: RunMetadata | null;
+}
+
+/**
+ * Request counts, latency and usage for one group of runs
+ */
+interface MetricsTotals {
+  key: string;
+  runs: number;
+  errors: number;
+  cancelled: number;
+  rejected: number;
+  coldStarts: number;
+  avgContainerStartMs: number | null;
+  avgCliMs: number | null;
+  avgTotalMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * All-time counters for one label set, as exposed to Prometheus
+ */
+type MetricsSeries = {
+  account_id: string;
+  source: string;
+  route: string;
+  auth_mode: string;
+  skill: string;
+  model: string;
+  outcome: string;
+  exit_code: string;
+  runs: number;
+  cold_starts: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+};
+
+type LatencyBucketRow = {
+  account_id: string;
+  phase: string;
+  bucket: number;
+  count: number;
+  sum_ms: number;
+};
+
+// Upper bounds of the latency histogram buckets; slower samples land in a final +Inf bucket
+const LATENCY_BUCKETS_MS = [250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000, 300000];
+
+// Dimensions /admin/metrics can break totals down by
+const METRICS_BREAKDOWNS = {
+  byDay: "day",
+  bySource: "source",
+  byRoute: "route",
+  byAuthMode: "auth_mode",
+  bySkill: "skill",
+  byModel: "model",
+  byOutcome: "outcome",
+  byExitCode: "exit_code"
+} as const;
+
+/**
+ * Per-account request metrics, aggregated by day in a single SQLite-backed Durable Object
+ * Samples are folded into counters as they arrive, so storage grows with label combinations, not requests
+ */
+export class MetricsStore extends DurableObject<Bindings> {
+  constructor(ctx: DurableObjectState, env: Bindings) {
+    super(ctx, env);
+    // Unset dimensions (no skill, no CLI exit code) are stored as '' so they can be part of the key
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS run_metrics (
+        day TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        route TEXT NOT NULL,
+        auth_mode TEXT NOT NULL,
+        skill TEXT NOT NULL,
+        model TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        exit_code TEXT NOT NULL,
+        runs INTEGER NOT NULL DEFAULT 0,
+        cold_starts INTEGER NOT NULL DEFAULT 0,
+        container_starts INTEGER NOT NULL DEFAULT 0,
+        container_start_ms INTEGER NOT NULL DEFAULT 0,
+        cli_runs INTEGER NOT NULL DEFAULT 0,
+        cli_ms INTEGER NOT NULL DEFAULT 0,
+        total_ms INTEGER NOT NULL DEFAULT 0,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (day, account_id, source, route, auth_mode, skill, model, outcome, exit_code)
+      );
+      CREATE TABLE IF NOT EXISTS latency_histogram (
+        account_id TEXT NOT NULL,
+        phase TEXT NOT NULL,
+        bucket INTEGER NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        sum_ms INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (account_id, phase, bucket)
+      );
+    `);
+  }
+
+  async record(sample: RunSample): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    const usage = sample.metadata?.usage;
+    sql.exec(
+      `INSERT INTO run_metrics (day, account_id, source, route, auth_mode, skill, model, outcome, exit_code,
+         runs, cold_starts, container_starts, container_start_ms, cli_runs, cli_ms, total_ms,
+         input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens, cost_usd)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(day, account_id, source, route, auth_mode, skill, model, outcome, exit_code) DO UPDATE SET
+         runs = runs + 1,
+         cold_starts = cold_starts + excluded.cold_starts,
+         container_starts = container_starts + excluded.container_starts,
+         container_start_ms = container_start_ms + excluded.container_start_ms,
+         cli_runs = cli_runs + excluded.cli_runs,
+         cli_ms = cli_ms + excluded.cli_ms,
+         total_ms = total_ms + excluded.total_ms,
+         input_tokens = input_tokens + excluded.input_tokens,
+         output_tokens = output_tokens + excluded.output_tokens,
+         cache_creation_tokens = cache_creation_tokens + excluded.cache_creation_tokens,
+         cache_read_tokens = cache_read_tokens + excluded.cache_read_tokens,
+         cost_usd = cost_usd + excluded.cost_usd`,
+      new Date().toISOString().slice(0, 10), sample.accountId, sample.source, sample.route, sample.authMode,
+      sample.skill || "", sample.model || "", sample.outcome, sample.exitCode === null ? "" : String(sample.exitCode),
+      sample.coldStart ? 1 : 0,
+      sample.containerStartMs === null ? 0 : 1, Math.round(sample.containerStartMs ?? 0),
+      sample.cliMs === null ? 0 : 1, Math.round(sample.cliMs ?? 0),
+      Math.round(sample.totalMs),
+      usage?.inputTokens ?? 0, usage?.outputTokens ?? 0,
+      usage?.cacheCreationInputTokens ?? 0, usage?.cacheReadInputTokens ?? 0,
+      sample.metadata?.costUsd ?? 0
+    );
+
+    const phases: Array<[string, number | null]> = [
+      ["container_start", sample.containerStartMs],
+      ["cli", sample.cliMs],
+      ["total", sample.totalMs]
+    ];
+    for (const [phase, ms] of phases) {
+      if (ms === null) continue;
+      const bucket = LATENCY_BUCKETS_MS.findIndex(bound => ms <= bound);
+      sql.exec(
+        `INSERT INTO latency_histogram (account_id, phase, bucket, count, sum_ms) VALUES (?, ?, ?, 1, ?)
+         ON CONFLICT(account_id, phase, bucket) DO UPDATE SET count = count + 1, sum_ms = sum_ms + excluded.sum_ms`,
+        sample.accountId, phase, bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket, Math.round(ms)
+      );
+    }
   }
 
-  override onError(error: unknown) {
-    console.error("[Container] Error", {
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date().toISOString()
+  /**
+   * Totals per account between two days (inclusive, YYYY-MM-DD), each with a breakdown per dimension
+   */
+  async getSummary(filter: { accountId: string | null; from: string | null; to: string | null }): Promise<Array<MetricsTotals & {
+    breakdowns: Record<keyof typeof METRICS_BREAKDOWNS, MetricsTotals[]>;
+  }>> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.accountId) {
+      conditions.push("account_id = ?");
+      params.push(filter.accountId);
+    }
+    if (filter.from) {
+      conditions.push("day >= ?");
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push("day <= ?");
+      params.push(filter.to);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return this.aggregate("account_id", where, params).map(account => {
+      const accountWhere = `${where ? `${where} AND` : "WHERE"} account_id = ?`;
+      const breakdowns = Object.fromEntries(
+        Object.entries(METRICS_BREAKDOWNS).map(([name, column]) => [name, this.aggregate(column, accountWhere, [...params, account.key])])
+      ) as Record<keyof typeof METRICS_BREAKDOWNS, MetricsTotals[]>;
+      return { ...account, breakdowns };
     });
   }
+
+  /**
+   * All-time counters and latency histograms for the Prometheus endpoint
+   */
+  async getSeries(): Promise<{ series: MetricsSeries[]; latency: LatencyBucketRow[] }> {
+    const series = this.ctx.storage.sql.exec<MetricsSeries>(
+      `SELECT account_id, source, route, auth_mode, skill, model, outcome, exit_code,
+         SUM(runs) AS runs, SUM(cold_starts) AS cold_starts,
+         SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+         SUM(cache_creation_tokens) AS cache_creation_tokens, SUM(cache_read_tokens) AS cache_read_tokens,
+         SUM(cost_usd) AS cost_usd
+       FROM run_metrics
+       GROUP BY account_id, source, route, auth_mode, skill, model, outcome, exit_code`
+    ).toArray();
+    const latency = this.ctx.storage.sql.exec<LatencyBucketRow>(
+      `SELECT account_id, phase, bucket, count, sum_ms FROM latency_histogram ORDER BY account_id, phase, bucket`
+    ).toArray();
+    return { series, latency };
+  }
+
+  private aggregate(column: string, where: string, params: string[]): MetricsTotals[] {
+    const rows = this.ctx.storage.sql.exec<{
+      key: string;
+      runs: number;
+      errors: number;
+      cancelled: number;
+      rejected: number;
+      cold_starts: number;
+      container_starts: number;
+      container_start_ms: number;
+      cli_runs: number;
+      cli_ms: number;
+      total_ms: number;
+      input_tokens: number;
+      output_tokens: number;
+      cache_creation_tokens: number;
+      cache_read_tokens: number;
+      cost_usd: number;
+    }>(
+      `SELECT ${column} AS key, SUM(runs) AS runs,
+         SUM(CASE WHEN outcome = 'error' THEN runs ELSE 0 END) AS errors,
+         SUM(CASE WHEN outcome = 'cancelled' THEN runs ELSE 0 END) AS cancelled,
+         SUM(CASE WHEN outcome = 'rejected' THEN runs ELSE 0 END) AS rejected,
+         SUM(cold_starts) AS cold_starts, SUM(container_starts) AS container_starts,
+         SUM(container_start_ms) AS container_start_ms, SUM(cli_runs) AS cli_runs, SUM(cli_ms) AS cli_ms,
+         SUM(total_ms) AS total_ms, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+         SUM(cache_creation_tokens) AS cache_creation_tokens, SUM(cache_read_tokens) AS cache_read_tokens,
+         SUM(cost_usd) AS cost_usd
+       FROM run_metrics ${where}
+       GROUP BY ${column} ORDER BY ${column}`,
+      ...params
+    ).toArray();
+
+    return rows.map(row => ({
+      key: row.key,
+      runs: row.runs,
+      errors: row.errors,
+      cancelled: row.cancelled,
+      rejected: row.rejected,
+      coldStarts: row.cold_starts,
+      avgContainerStartMs: row.container_starts > 0 ? Math.round(row.container_start_ms / row.container_starts) : null,
+      avgCliMs: row.cli_runs > 0 ? Math.round(row.cli_ms / row.cli_runs) : null,
+      avgTotalMs: Math.round(row.total_ms / row.runs),
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheCreationInputTokens: row.cache_creation_tokens,
+      cacheReadInputTokens: row.cache_read_tokens,
+      costUsd: Math.round(row.cost_usd * 1e6) / 1e6
+    }));
+  }
 }
 
-type Bindings = {
-  AGENT_CONTAINER: DurableObjectNamespace<AgentContainer>;
-  // OAuth credentials for Max subscription
-  CLAUDE_ACCESS_TOKEN?: string;
-  CLAUDE_REFRESH_TOKEN?: string;
-  CLAUDE_EXPIRES_AT?: string;
-  // Fallback API key
-  ANTHROPIC_API_KEY?: string;
-  // Other config
-  MODEL?: string;
-  // Worker API key for request authentication
-  WORKER_API_KEY?: string;
-  // Deprecated: Legacy API_KEY (use WORKER_API_KEY instead)
-  API_KEY?: string;
-  // R2 bucket for skills
-  SKILLS_BUCKET?: R2Bucket;
+/**
+ * A turn in a conversation session
+ */
+interface SessionMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Public view of a conversation session
+ */
+interface SessionRecord {
+  id: string;
+  skill: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+}
+
+/**
+ * What the Worker needs to resume a session in the container
+ */
+interface SessionResumeState {
+  cliSessionId: string;
+  skill: string | null;
+  transcript: string | null;
+  turns: number;
+}
+
+/**
+ * Usage and outcome of a CLI run, as reported by the container
+ */
+interface RunMetadata {
+  sessionId: string | null;
+  numTurns: number;
+  durationMs: number;
+  durationApiMs: number;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+  };
+  costUsd: number;
+  stopReason: string | null;
+  isError: boolean;
+}
+
+/**
+ * Body of a non-streaming container /run response
+ */
+interface ContainerRunResponse {
+  success?: boolean;
+  response?: string;
+  authMode?: string;
+  metadata?: RunMetadata;
+  session?: { id: string; transcript: string | null };
+  // "cancelled" (with a 409) when the run was stopped through /runs/:id/cancel or a client disconnect
+  status?: "cancelled";
+  // How the CLI process ended, once it was started (exitCode is null when it was killed)
+  execution?: { exitCode: number | null; durationMs: number; timedOut?: boolean };
+  toolCalls?: AuditToolCall[];
+  error?: string;
+}
+
+/**
+ * Per-request CLI options forwarded to the container's /run
+ */
+interface RunOptions {
+  model?: string;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+  maxTurns?: number;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  permissionMode?: string;
+  agents?: Record<string, AgentDefinition>;
+  mcpServers?: Record<string, McpServerConfig>;
+  callbacks?: ToolCallbacks;
+  approvals?: ApprovalOptions;
+}
+
+/**
+ * Tool registered in the request body, invoked by POSTing to its callbackUrl
+ */
+interface CallbackTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  callbackUrl: string;
+}
+
+/**
+ * Caller tools for a run, with the account's signing secret and the call limits
+ * The container serves them to the CLI as the "callbacks" MCP server
+ */
+interface ToolCallbacks {
+  tools: CallbackTool[];
+  secret: string;
+  timeoutMs: number;
+  maxResultBytes: number;
+}
+
+/**
+ * Subagent passed to the CLI via --agents
+ */
+interface AgentDefinition {
+  description: string;
+  prompt: string;
+  tools?: string[];
+  model?: string;
+}
+
+/**
+ * Permission-prompt mode: tool uses that need permission wait for a decision via /runs/:id/approve|deny
+ * The container denies after timeoutMs; the AgentContainer records each request and notifies webhookUrl
+ */
+interface ApprovalOptions {
+  timeoutMs: number;
+  webhookUrl: string | null;
+}
+
+// Runs with approvals are polled this often, so their requests are recorded and announced as they are made
+const APPROVAL_POLL_SECONDS = 2;
+
+// How long a watched run has to reach the container before polling gives up on it
+const APPROVAL_WATCH_START_MS = 60 * 1000;
+
+/**
+ * A run with approvals that is being polled, see AgentContainer.watchApprovals
+ */
+interface ApprovalWatch {
+  runId: string;
+  startBy: number;
+  seen: boolean;
+}
+
+type ApprovalStatus = "pending" | "approved" | "denied" | "expired";
+
+/**
+ * A tool use a run asked permission for
+ */
+interface ApprovalRecord {
+  id: string;
+  runId: string;
+  toolName: string;
+  input: Record<string, any>;
+  status: ApprovalStatus;
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  message: string | null;
+}
+
+type ApprovalRow = {
+  id: string;
+  run_id: string;
+  tool_name: string;
+  input: string;
+  status: string;
+  requested_at: number;
+  expires_at: number;
+  decided_at: number | null;
+  decided_by: string | null;
+  message: string | null;
+};
+
+/**
+ * Decision sent to the container; the CLI's permission prompt tool returns it as-is
+ */
+type ApprovalDecision =
+  | { behavior: "allow"; updatedInput?: Record<string, unknown> }
+  | { behavior: "deny"; message: string };
+
+/**
+ * A tool the agent invoked, from the CLI's stream-json tool_use and tool_result events
+ * isError is null when no result was seen
+ */
+interface AuditToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  isError: boolean | null;
+}
+
+/**
+ * Audit log entry for one request: who ran what, which tools the agent used and how it ended
+ * The prompt itself is not kept, only its SHA-256
+ */
+interface AuditEntry {
+  id: string;
+  createdAt: string;
+  runId: string | null;
+  source: RunSample["source"];
+  keyId: string;
+  keyName: string;
+  promptHash: string;
+  skill: string | null;
+  agents: string[];
+  sessionId: string | null;
+  route: TriageRoute;
+  toolCalls: AuditToolCall[];
+  outcome: RunOutcome;
+  error: string | null;
+  durationMs: number;
+  costUsd: number;
+}
+
+type AuditRow = {
+  id: string;
+  created_at: number;
+  run_id: string | null;
+  source: string;
+  key_id: string;
+  key_name: string;
+  prompt_hash: string;
+  skill: string | null;
+  agents: string;
+  session_id: string | null;
+  route: string;
+  tool_calls: string;
+  outcome: string;
+  error: string | null;
+  duration_ms: number;
+  cost_usd: number;
 };
 
-const app = new Hono<{ Bindings: Bindings }>();
+// Exported audit entries stay queryable in the Durable Object this long, then only live in AUDIT_BUCKET
+const AUDIT_EXPORTED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+type WebhookEventType = "run.started" | "run.completed" | "run.failed" | "run.timeout" | "container.stopped";
+
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["run.started", "run.completed", "run.failed", "run.timeout", "container.stopped"];
+
+/**
+ * Endpoint an account registered for lifecycle events
+ * The signing secret is only returned when the webhook is created
+ */
+interface WebhookRecord {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  createdAt: string;
+}
+
+type WebhookRow = {
+  id: string;
+  url: string;
+  events: string;
+  secret: string;
+  created_at: number;
+};
+
+type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * One event sent to one webhook; pending deliveries are retried with exponential backoff
+ */
+interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+}
+
+type WebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  next_attempt_at: number | null;
+  delivered_at: number | null;
+};
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_MAX_ATTEMPTS = 6;
+// Retries wait 30s, 1m, 2m, 4m, 8m
+const WEBHOOK_RETRY_BASE_SECONDS = 30;
+const WEBHOOK_DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * MCP server definition from MCP_SERVERS, in the CLI's --mcp-config format
+ * String values may reference per-account secrets as ${secret:NAME}
+ */
+type McpServerConfig =
+  | { type: "stdio"; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: "http" | "sse"; url: string; headers?: Record<string, string> };
+
+/**
+ * Per-account MCP settings: servers enabled when a request doesn't name any, and secret values
+ */
+interface McpAccountSettings {
+  defaultServers: string[];
+  secrets: Record<string, string>;
+}
+
+/**
+ * Per-account MCP settings as the admin routes see them: secret names, never values
+ */
+interface McpAccountSummary {
+  defaultServers: string[];
+  secrets: string[];
+}
+
+/**
+ * /query response when outputFormat is "json"
+ */
+interface QueryResult {
+  success: boolean;
+  response: string;
+  authMode: string;
+  route: TriageRoute;
+  result: RunMetadata;
+}
+
+/**
+ * Size and content hash of a workspace file, in the container or R2
+ */
+interface WorkspaceFileInfo {
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Which framework files to prepend to a prompt
+ * "bundled" is the framework-context.txt baked into the container image;
+ * a list selects files from framework/index.json by name or "category:<name>"
+ */
+type FrameworkSelection = "none" | "bundled" | string[];
+
+/**
+ * Per-account framework defaults; maxTokens null means no cap
+ */
+interface FrameworkProfile {
+  framework: FrameworkSelection;
+  maxTokens: number | null;
+}
+
+/**
+ * Per-account limits; null means unlimited
+ */
+interface QuotaLimits {
+  requestsPerMinute: number | null;
+  maxConcurrent: number | null;
+  dailyTokenBudget: number | null;
+  dailyCostBudgetUsd: number | null;
+}
+
+/**
+ * Outcome of a quota check
+ * rateLimit.reset is in epoch seconds, retryAfter in seconds
+ */
+interface QuotaDecision {
+  allowed: boolean;
+  leaseId: string | null;
+  reason?: string;
+  retryAfter?: number;
+  rateLimit: { limit: number; remaining: number; reset: number } | null;
+}
+
+// The container kills a CLI after 5 minutes; a run that waits on reviewers also gets its approval timeout
+const CLI_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Leases outlive their run's CLI timeout by this much, so a stale one means the Worker never released it
+const QUOTA_LEASE_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * How long a run's CLI may take, mirroring the container's cliTimeoutMs
+ */
+function cliTimeoutMs(options: RunOptions): number {
+  return CLI_TIMEOUT_MS + (options.approvals?.timeoutMs ?? 0);
+}
+
+type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * An asynchronous query and, once finished, its outcome
+ */
+interface JobRecord {
+  id: string;
+  status: JobStatus;
+  result: { response: string; authMode?: string; metadata?: RunMetadata } | null;
+  error: string | null;
+  webhookUrl: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+type JobRow = {
+  id: string;
+  status: string;
+  result: string | null;
+  error: string | null;
+  webhook_url: string | null;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+};
+
+// Header carrying the per-instance token the container checks (see AgentContainer.containerAuthToken)
+const CONTAINER_AUTH_HEADER = "x-container-token";
+
+export class AgentContainer extends Container<Bindings> {
+  defaultPort = 8080;
+  sleepAfter = "5m";
+  // Access token the running container was last given
+  private pushedAccessToken: string | null = null;
+  // Restore of the running container's workspace in progress, shared by runs that start while it copies
+  private workspaceRestore: Promise<void> | null = null;
+
+  constructor(ctx: DurableObjectState, env: any) {
+    super(ctx, env);
+    setLogLevel(env.LOG_LEVEL);
+
+    // Conversation sessions survive container sleep in the DO's SQLite storage
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        cli_session_id TEXT NOT NULL,
+        skill TEXT,
+        transcript TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS session_messages (
+        session_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (session_id, seq)
+      );
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        request TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        webhook_url TEXT,
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        completed_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS approvals (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        input TEXT NOT NULL,
+        status TEXT NOT NULL,
+        requested_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        decided_at INTEGER,
+        decided_by TEXT,
+        message TEXT
+      );
+      CREATE INDEX IF NOT EXISTS approvals_run ON approvals (run_id);
+      CREATE TABLE IF NOT EXISTS approval_runs (
+        run_id TEXT PRIMARY KEY,
+        webhook_url TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        run_id TEXT,
+        source TEXT NOT NULL,
+        key_id TEXT NOT NULL,
+        key_name TEXT NOT NULL,
+        prompt_hash TEXT NOT NULL,
+        skill TEXT,
+        agents TEXT NOT NULL,
+        session_id TEXT,
+        route TEXT NOT NULL,
+        tool_calls TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        cost_usd REAL NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS audit_log_created ON audit_log (created_at, id);
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        next_attempt_at INTEGER,
+        delivered_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at);
+      CREATE TABLE IF NOT EXISTS account_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS quota_requests (
+        ts INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS quota_leases (
+        id TEXT PRIMARY KEY,
+        acquired_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS quota_usage (
+        day TEXT PRIMARY KEY,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0
+      );
+    `);
+
+    // Containers started by containerFetch (rather than ensureStarted) start with this env: the auth token but no OAuth tokens,
+    // which only come from the CredentialStore and are pushed by the next ensureStarted
+    this.envVars = containerEnvVars(env, null, this.containerAuthToken());
+  }
+
+  /**
+   * Start the container if needed and make sure it has the latest OAuth tokens
+   * A running container keeps the env it started with, so rotated tokens are pushed to it
+   * Returns true if the container had to be started (a cold start)
+   */
+  async ensureStarted(oauth: OAuthCredentials | null): Promise<boolean> {
+    const coldStart = !this.ctx.container?.running;
+    // Set as envVars rather than startOptions: a pending onStop runs inside startAndWaitForPorts and rotates the token,
+    // and the container must start with the rotated one
+    this.envVars = containerEnvVars(this.env, oauth, this.containerAuthToken());
+    await this.startAndWaitForPorts({ ports: [8080] });
+
+    if (oauth && oauth.accessToken !== this.pushedAccessToken) {
+      const res = await this.containerFetch(
+        new Request("http://container.internal/credentials", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ accessToken: oauth.accessToken, expiresAt: oauth.expiresAt })
+        }),
+        8080
+      );
+      if (res.ok) {
+        this.pushedAccessToken = oauth.accessToken;
+      } else {
+        log.error("Failed to push credentials to container", { status: res.status });
+      }
+    }
+    return coldStart;
+  }
+
+  /**
+   * Every request to the container carries this instance's token; the container rejects any without it
+   */
+  override async containerFetch(requestOrUrl: Request | string | URL, portOrInit?: number | RequestInit, portParam?: number): Promise<Response> {
+    const request = requestOrUrl instanceof Request
+      ? requestOrUrl
+      : new Request(requestOrUrl, typeof portOrInit === "number" ? undefined : portOrInit);
+    const headers = new Headers(request.headers);
+    headers.set(CONTAINER_AUTH_HEADER, this.containerAuthToken());
+    return super.containerFetch(new Request(request, { headers }), typeof portOrInit === "number" ? portOrInit : portParam);
+  }
+
+  /**
+   * Token the Worker authenticates to this account's container with, created on first use
+   * It is rotated whenever the container stops, so each container instance gets its own
+   */
+  private containerAuthToken(): string {
+    return this.getSetting<string>("container_auth_token") || this.rotateContainerAuthToken();
+  }
+
+  private rotateContainerAuthToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const token = `cct_${[...bytes].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+    this.setSetting("container_auth_token", token);
+    this.envVars = { ...this.envVars, CONTAINER_AUTH_TOKEN: token };
+    return token;
+  }
+
+  private getSetting<T>(key: string): T | null {
+    const rows = this.ctx.storage.sql.exec<{ value: string }>(`SELECT value FROM account_settings WHERE key = ?`, key).toArray();
+    return rows.length > 0 ? JSON.parse(rows[0].value) as T : null;
+  }
+
+  private setSetting(key: string, value: unknown) {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO account_settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      key, JSON.stringify(value)
+    );
+  }
+
+  /**
+   * Per-account limit overrides; fields left out fall back to the Worker defaults
+   */
+  async getQuotaOverrides(): Promise<Partial<QuotaLimits>> {
+    return this.getSetting<Partial<QuotaLimits>>("quota_limits") || {};
+  }
+
+  async setQuotaOverrides(overrides: Partial<QuotaLimits>): Promise<void> {
+    this.setSetting("quota_limits", overrides);
+  }
+
+  /**
+   * Per-account framework profile overrides; fields left out fall back to the Worker defaults
+   */
+  async getFrameworkProfile(): Promise<Partial<FrameworkProfile>> {
+    return this.getSetting<Partial<FrameworkProfile>>("framework_profile") || {};
+  }
+
+  async setFrameworkProfile(profile: Partial<FrameworkProfile>): Promise<void> {
+    this.setSetting("framework_profile", profile);
+  }
+
+  /**
+   * Per-account MCP defaults and decrypted secrets, for building run configs
+   * Secrets are stored encrypted with MCP_SECRETS_KEY
+   */
+  async getMcpSettings(): Promise<McpAccountSettings> {
+    const stored = this.getStoredMcpSettings();
+    const secrets: Record<string, string> = {};
+    for (const [name, encrypted] of Object.entries(stored.secrets)) {
+      if (!this.env.MCP_SECRETS_KEY) {
+        throw new Error("MCP_SECRETS_KEY is not set, so MCP secrets cannot be decrypted");
+      }
+      secrets[name] = await decryptSecret(this.env.MCP_SECRETS_KEY, encrypted);
+    }
+    return { defaultServers: stored.defaultServers, secrets };
+  }
+
+  async getMcpSummary(): Promise<McpAccountSummary> {
+    const stored = this.getStoredMcpSettings();
+    return { defaultServers: stored.defaultServers, secrets: Object.keys(stored.secrets) };
+  }
+
+  /**
+   * Replace the default servers and merge secrets, with null removing a secret
+   */
+  async updateMcpSettings(update: { defaultServers?: string[]; secrets?: Record<string, string | null> }): Promise<McpAccountSummary> {
+    const stored = this.getStoredMcpSettings();
+    if (update.defaultServers) {
+      stored.defaultServers = update.defaultServers;
+    }
+    for (const [name, value] of Object.entries(update.secrets ?? {})) {
+      if (value === null) {
+        delete stored.secrets[name];
+      } else if (!this.env.MCP_SECRETS_KEY) {
+        throw new Error("MCP_SECRETS_KEY is not set, so MCP secrets cannot be stored");
+      } else {
+        stored.secrets[name] = await encryptSecret(this.env.MCP_SECRETS_KEY, value);
+      }
+    }
+    this.setSetting("mcp_settings", stored);
+    return { defaultServers: stored.defaultServers, secrets: Object.keys(stored.secrets) };
+  }
+
+  private getStoredMcpSettings(): McpAccountSettings {
+    return { defaultServers: [], secrets: {}, ...this.getSetting<Partial<McpAccountSettings>>("mcp_settings") };
+  }
+
+  /**
+   * Secret the container signs this account's tool callbacks with, created on first use
+   */
+  async getCallbackSecret(): Promise<string> {
+    return this.getSetting<string>("callback_secret") || this.rotateCallbackSecret();
+  }
+
+  async rotateCallbackSecret(): Promise<string> {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const secret = `cbs_${[...bytes].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+    this.setSetting("callback_secret", secret);
+    return secret;
+  }
+
+  async getQuotaUsage(): Promise<{ day: string; tokens: number; costUsd: number; inFlight: number }> {
+    const day = new Date().toISOString().slice(0, 10);
+    const usage = this.ctx.storage.sql.exec<{ tokens: number; cost_usd: number }>(
+      `SELECT tokens, cost_usd FROM quota_usage WHERE day = ?`, day
+    ).toArray()[0];
+    const inFlight = this.ctx.storage.sql.exec<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM quota_leases WHERE expires_at > ?`, Date.now()
+    ).one().count;
+    return { day, tokens: usage?.tokens || 0, costUsd: usage?.cost_usd || 0, inFlight };
+  }
+
+  /**
+   * Check rate limits and budgets before a run
+   * With a lease the run counts towards maxConcurrent until releaseQuota, or until the lease expires
+   * The lease is keyed by the run id, so cancelRun can release it early
+   */
+  async acquireQuota(defaults: QuotaLimits, lease: { runId: string; ttlMs: number } | null): Promise<QuotaDecision> {
+    const limits = { ...defaults, ...(await this.getQuotaOverrides()) };
+    const sql = this.ctx.storage.sql;
+    const now = Date.now();
+
+    sql.exec(`DELETE FROM quota_requests WHERE ts <= ?`, now - 60_000);
+    sql.exec(`DELETE FROM quota_leases WHERE expires_at <= ?`, now);
+
+    const window = sql.exec<{ count: number; oldest: number | null }>(
+      `SELECT COUNT(*) AS count, MIN(ts) AS oldest FROM quota_requests`
+    ).one();
+    const windowReset = Math.ceil(((window.oldest ?? now) + 60_000) / 1000);
+    const rateLimit = limits.requestsPerMinute != null
+      ? { limit: limits.requestsPerMinute, remaining: Math.max(0, limits.requestsPerMinute - window.count - 1), reset: windowReset }
+      : null;
+    const deny = (reason: string, retryAfter: number): QuotaDecision => ({
+      allowed: false,
+      leaseId: null,
+      reason,
+      retryAfter: Math.max(1, retryAfter),
+      rateLimit: rateLimit && { ...rateLimit, remaining: 0 }
+    });
+
+    if (limits.requestsPerMinute != null && window.count >= limits.requestsPerMinute) {
+      return deny(`Rate limit of ${limits.requestsPerMinute} requests per minute exceeded`, windowReset - Math.floor(now / 1000));
+    }
+
+    if (lease && limits.maxConcurrent != null) {
+      const inFlight = sql.exec<{ count: number }>(`SELECT COUNT(*) AS count FROM quota_leases`).one().count;
+      if (inFlight >= limits.maxConcurrent) {
+        return deny(`Concurrency limit of ${limits.maxConcurrent} in-flight queries reached`, 5);
+      }
+    }
+
+    const usage = await this.getQuotaUsage();
+    const secondsUntilMidnight = Math.ceil((Date.parse(`${usage.day}T00:00:00Z`) + 86_400_000 - now) / 1000);
+    if (limits.dailyTokenBudget != null && usage.tokens >= limits.dailyTokenBudget) {
+      return deny(`Daily token budget of ${limits.dailyTokenBudget} exhausted`, secondsUntilMidnight);
+    }
+    if (limits.dailyCostBudgetUsd != null && usage.costUsd >= limits.dailyCostBudgetUsd) {
+      return deny(`Daily cost budget of $${limits.dailyCostBudgetUsd} exhausted`, secondsUntilMidnight);
+    }
+
+    sql.exec(`INSERT INTO quota_requests (ts) VALUES (?)`, now);
+    if (lease) {
+      sql.exec(
+        `INSERT INTO quota_leases (id, acquired_at, expires_at) VALUES (?, ?, ?)`,
+        lease.runId, now, now + lease.ttlMs
+      );
+    }
+
+    return { allowed: true, leaseId: lease?.runId ?? null, rateLimit };
+  }
+
+  /**
+   * Release a concurrency lease and charge the run's usage to today's budget
+   */
+  async releaseQuota(leaseId: string | null, metadata: RunMetadata | null): Promise<void> {
+    if (leaseId) {
+      this.ctx.storage.sql.exec(`DELETE FROM quota_leases WHERE id = ?`, leaseId);
+    }
+    if (metadata) {
+      this.recordUsage(metadata);
+    }
+  }
+
+  private recordUsage(metadata: RunMetadata) {
+    const tokens = metadata.usage.inputTokens + metadata.usage.outputTokens;
+    this.ctx.storage.sql.exec(
+      `INSERT INTO quota_usage (day, tokens, cost_usd) VALUES (?, ?, ?)
+       ON CONFLICT(day) DO UPDATE SET tokens = tokens + excluded.tokens, cost_usd = cost_usd + excluded.cost_usd`,
+      new Date().toISOString().slice(0, 10), tokens, metadata.costUsd
+    );
+  }
+
+  /**
+   * Create a conversation session for this account
+   * The CLI session id is fixed up front so every turn can resume it
+   */
+  async createSession(skill: string | null): Promise<SessionRecord> {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO sessions (id, cli_session_id, skill, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
+      id, crypto.randomUUID(), skill, now, now
+    );
+    return (await this.getSession(id))!;
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const rows = this.ctx.storage.sql.exec<{ id: string; skill: string | null; created_at: number; updated_at: number }>(
+      `SELECT id, skill, created_at, updated_at FROM sessions WHERE id = ?`, id
+    ).toArray();
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const messages = this.ctx.storage.sql.exec<{ role: string; content: string; created_at: number }>(
+      `SELECT role, content, created_at FROM session_messages WHERE session_id = ? ORDER BY seq`, id
+    ).toArray();
+
+    return {
+      id: rows[0].id,
+      skill: rows[0].skill,
+      createdAt: new Date(rows[0].created_at).toISOString(),
+      updatedAt: new Date(rows[0].updated_at).toISOString(),
+      messages: messages.map(m => ({
+        role: m.role as SessionMessage["role"],
+        content: m.content,
+        createdAt: new Date(m.created_at).toISOString()
+      }))
+    };
+  }
+
+  async getSessionResumeState(id: string): Promise<SessionResumeState | null> {
+    const rows = this.ctx.storage.sql.exec<{ cli_session_id: string; skill: string | null; transcript: string | null; turns: number }>(
+      `SELECT cli_session_id, skill, transcript,
+        (SELECT COUNT(*) FROM session_messages WHERE session_id = sessions.id AND role = 'user') AS turns
+       FROM sessions WHERE id = ?`, id
+    ).toArray();
+    if (rows.length === 0) {
+      return null;
+    }
+    return {
+      cliSessionId: rows[0].cli_session_id,
+      skill: rows[0].skill,
+      transcript: rows[0].transcript,
+      turns: rows[0].turns
+    };
+  }
+
+  /**
+   * Append a completed turn and keep the latest CLI transcript for the next resume
+   */
+  async recordSessionTurn(id: string, prompt: string, response: string, transcript: string | null): Promise<void> {
+    const now = Date.now();
+    const next = this.ctx.storage.sql.exec<{ seq: number }>(
+      `SELECT COALESCE(MAX(seq), 0) + 1 AS seq FROM session_messages WHERE session_id = ?`, id
+    ).one().seq;
+
+    this.ctx.storage.sql.exec(
+      `INSERT INTO session_messages (session_id, seq, role, content, created_at) VALUES (?, ?, 'user', ?, ?), (?, ?, 'assistant', ?, ?)`,
+      id, next, prompt, now, id, next + 1, response, now
+    );
+    this.ctx.storage.sql.exec(
+      `UPDATE sessions SET transcript = COALESCE(?, transcript), updated_at = ? WHERE id = ?`,
+      transcript, now, id
+    );
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    this.ctx.storage.sql.exec(`DELETE FROM session_messages WHERE session_id = ?`, id);
+    const cursor = this.ctx.storage.sql.exec(`DELETE FROM sessions WHERE id = ?`, id);
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Queue a query to run in the background
+   * It executes from the DO alarm, so the caller gets the job id straight away
+   */
+  async enqueueJob(
+    accountId: string,
+    run: {
+      prompt: string;
+      options?: RunOptions;
+      frameworkContext?: string;
+      skill?: string | null;
+      trace?: Record<string, string>;
+      audit?: Pick<AuditEntry, "keyId" | "keyName" | "promptHash" | "agents">;
+    },
+    webhookUrl: string | null
+  ): Promise<JobRecord> {
+    // Jobs run from the alarm, which needs the account id to find the workspace
+    this.setSetting("account_id", accountId);
+    const id = crypto.randomUUID();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO jobs (id, status, request, webhook_url, created_at) VALUES (?, 'queued', ?, ?, ?)`,
+      id, JSON.stringify(run), webhookUrl, Date.now()
+    );
+    await this.schedule(0, "runJob", { jobId: id });
+    return (await this.getJob(id))!;
+  }
+
+  /**
+   * Cancel a run by id: jobs go through cancelJob, other runs are interrupted in the container
+   * Returns false if the run is not active
+   */
+  async cancelRun(runId: string): Promise<boolean> {
+    const job = await this.getJob(runId);
+    if (job) {
+      if (job.status !== "queued" && job.status !== "running") {
+        return false;
+      }
+      await this.cancelJob(runId);
+      return true;
+    }
+
+    if (!this.ctx.container?.running) {
+      return false;
+    }
+    const res = await this.containerFetch(
+      new Request(`http://container.internal/runs/${encodeURIComponent(runId)}/cancel`, { method: "POST" }),
+      8080
+    );
+    if (!res.ok) {
+      return false;
+    }
+    // The run no longer counts towards maxConcurrent while the CLI winds down; releasing it again is a no-op
+    this.ctx.storage.sql.exec(`DELETE FROM quota_leases WHERE id = ?`, runId);
+    return true;
+  }
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    const rows = this.ctx.storage.sql.exec<JobRow>(
+      `SELECT id, status, result, error, webhook_url, created_at, started_at, completed_at FROM jobs WHERE id = ?`, id
+    ).toArray();
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+    return {
+      id: row.id,
+      status: row.status as JobStatus,
+      result: row.result ? JSON.parse(row.result) : null,
+      error: row.error,
+      webhookUrl: row.webhook_url,
+      createdAt: new Date(row.created_at).toISOString(),
+      startedAt: row.started_at ? new Date(row.started_at).toISOString() : null,
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null
+    };
+  }
+
+  /**
+   * Cancel a queued or running job, killing its CLI process if it has started
+   */
+  async cancelJob(id: string): Promise<JobRecord | null> {
+    const job = await this.getJob(id);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === "queued" || job.status === "running") {
+      this.finishJob(id, "cancelled", null, "Cancelled by client");
+
+      if (job.status === "running") {
+        try {
+          await this.containerFetch(new Request(`http://container.internal/runs/${id}/cancel`, { method: "POST" }), 8080);
+        } catch (error) {
+          log.error("Failed to cancel container run", {
+            jobId: id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    return this.getJob(id);
+  }
+
+  /**
+   * Scheduled callback that runs a queued job in the container
+   */
+  async runJob({ jobId }: { jobId: string }): Promise<void> {
+    const rows = this.ctx.storage.sql.exec<{ status: string; request: string }>(
+      `SELECT status, request FROM jobs WHERE id = ?`, jobId
+    ).toArray();
+    if (rows.length === 0 || rows[0].status !== "queued") {
+      return;
+    }
+
+    const startedAt = Date.now();
+    this.ctx.storage.sql.exec(`UPDATE jobs SET status = 'running', started_at = ? WHERE id = ?`, startedAt, jobId);
+    log.info("Running job", { jobId });
+
+    // The trace headers of the request that queued the job are sent on, so its container logs share the request id
+    const { trace, skill, audit, ...run } = JSON.parse(rows[0].request);
+    const accountId = this.getSetting<string>("account_id");
+    const sample: RunSample = {
+      accountId: accountId || "default",
+      source: "job",
+      route: "container",
+      authMode: "",
+      skill: skill || null,
+      model: run.options?.model || this.env.MODEL || "claude-sonnet-4-5",
+      outcome: "error",
+      exitCode: null,
+      coldStart: false,
+      containerStartMs: null,
+      cliMs: null,
+      totalMs: 0,
+      metadata: null
+    };
+    let toolCalls: AuditToolCall[] = [];
+    let runError: string | null = null;
+    let timedOut = false;
+    await this.emitWebhookEvent(accountId, "run.started", { runId: jobId, source: "job", sessionId: null, skill: sample.skill });
+
+    try {
+      const { oauth } = await resolveAuth(this.env);
+      sample.authMode = oauth ? "subscription" : "api_key";
+      sample.coldStart = await this.ensureStarted(oauth);
+      if (accountId) {
+        await this.restoreWorkspace(accountId);
+      }
+      sample.containerStartMs = Date.now() - startedAt;
+      if (run.options?.approvals) {
+        await this.watchApprovals(jobId, run.options.approvals.webhookUrl ?? null);
+      }
+
+      const res = await this.containerFetch(
+        new Request("http://container.internal/run", {
+          method: "POST",
+          headers: { "content-type": "application/json", ...trace },
+          // The job id doubles as the run id so cancellation can find the process
+          body: JSON.stringify({ ...run, runId: jobId })
+        }),
+        8080
+      );
+      const data = await res.json() as ContainerRunResponse;
+      sample.outcome = containerRunOutcome(res, data);
+      sample.exitCode = data.execution?.exitCode ?? null;
+      sample.cliMs = data.execution?.durationMs ?? null;
+      sample.metadata = data.metadata ?? null;
+      toolCalls = data.toolCalls ?? [];
+      runError = data.error ?? null;
+      timedOut = !!data.execution?.timedOut;
+
+      if (data.metadata) {
+        this.recordUsage(data.metadata);
+      }
+      if (accountId) {
+        await this.snapshotWorkspace(accountId).catch((error: any) => {
+          log.error("Workspace snapshot failed", { jobId, error: error.message });
+        });
+      }
+
+      if (data.status === "cancelled") {
+        this.finishJob(jobId, "cancelled", null, "Cancelled by client");
+      } else if (res.ok) {
+        this.finishJob(jobId, "succeeded", {
+          response: data.response || "",
+          authMode: data.authMode,
+          metadata: data.metadata
+        }, null);
+      } else {
+        this.finishJob(jobId, "failed", null, data.error || `Container returned ${res.status}`);
+      }
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
+      this.finishJob(jobId, "failed", null, runError);
+    }
+
+    sample.totalMs = Date.now() - startedAt;
+    if (this.env.METRICS_STORE) {
+      await getMetricsStore(this.env).record(sample).catch((error: any) => {
+        log.error("Failed to record metrics", { jobId, error: error.message });
+      });
+    }
+    // Jobs queued before the audit log existed carry no caller details
+    if (audit) {
+      await this.recordAudit(sample.accountId, {
+        ...audit,
+        runId: jobId,
+        source: "job",
+        skill: sample.skill,
+        sessionId: null,
+        route: "container",
+        toolCalls,
+        outcome: sample.outcome,
+        error: runError,
+        durationMs: sample.totalMs,
+        costUsd: sample.metadata?.costUsd ?? 0
+      });
+    }
+    await this.emitWebhookEvent(accountId, runEventType(sample.outcome, timedOut), runEventData(sample, jobId, null, runError));
+    await this.notifyJobWebhook(jobId);
+  }
+
+  private async workspaceRequest(method: "GET" | "PUT" | "DELETE", filePath: string, body?: ArrayBuffer): Promise<Response> {
+    return this.containerFetch(
+      new Request(`http://container.internal/workspace/files/${encodeURIComponent(filePath)}`, { method, body }),
+      8080
+    );
+  }
+
+  private async listContainerWorkspace(): Promise<Map<string, WorkspaceFileInfo>> {
+    const res = await this.containerFetch(new Request("http://container.internal/workspace/files"), 8080);
+    if (!res.ok) {
+      throw new Error(`Container returned ${res.status} listing the workspace`);
+    }
+    const { files } = await res.json() as { files: Array<WorkspaceFileInfo & { path: string }> };
+    return new Map(files.map(f => [f.path, { size: f.size, sha256: f.sha256 }]));
+  }
+
+  /**
+   * Whether the running container's workspace was restored from R2
+   * Keyed by the per-instance auth token, so it survives DO eviction and resets when the container stops
+   */
+  private isWorkspaceRestored(): boolean {
+    return this.getSetting<string>("workspace_restored_for") === this.containerAuthToken();
+  }
+
+  /**
+   * Copy the account's workspace from R2 into the running container, once per container instance
+   * Later runs share the container with runs still writing to it, so they must not restore again
+   */
+  async restoreWorkspace(accountId: string): Promise<void> {
+    if (!this.env.WORKSPACE_BUCKET || this.isWorkspaceRestored()) {
+      return;
+    }
+    this.workspaceRestore ??= this.copyWorkspaceFromR2(accountId, this.env.WORKSPACE_BUCKET).finally(() => {
+      this.workspaceRestore = null;
+    });
+    return this.workspaceRestore;
+  }
+
+  /**
+   * R2 is the source of truth for a fresh container, so its files missing from R2 are removed
+   * No run has started in it yet, so nothing it removes can belong to a run
+   */
+  private async copyWorkspaceFromR2(accountId: string, bucket: R2Bucket): Promise<void> {
+    const [stored, local] = await Promise.all([listWorkspaceObjects(bucket, accountId), this.listContainerWorkspace()]);
+    let copied = 0;
+    for (const [filePath, object] of stored) {
+      if (local.get(filePath)?.sha256 === object.sha256) continue;
+      const file = await bucket.get(workspaceKey(accountId, filePath));
+      if (!file) continue;
+      await this.workspaceRequest("PUT", filePath, await file.arrayBuffer());
+      copied++;
+    }
+
+    let removed = 0;
+    for (const filePath of local.keys()) {
+      if (stored.has(filePath)) continue;
+      await this.workspaceRequest("DELETE", filePath);
+      removed++;
+    }
+
+    this.setSetting("workspace_restored_for", this.containerAuthToken());
+    log.info("Workspace restored", { accountId, files: stored.size, copied, removed });
+  }
+
+  /**
+   * Save the container's workspace back to R2 after a run
+   * Deletions are only mirrored once this container was restored, so a fresh one can't wipe R2
+   */
+  async snapshotWorkspace(accountId: string): Promise<void> {
+    const bucket = this.env.WORKSPACE_BUCKET;
+    if (!bucket) {
+      return;
+    }
+
+    const maxBytes = parseInt(this.env.WORKSPACE_MAX_FILE_BYTES || "") || DEFAULT_WORKSPACE_MAX_FILE_BYTES;
+    const [stored, local] = await Promise.all([listWorkspaceObjects(bucket, accountId), this.listContainerWorkspace()]);
+
+    let saved = 0;
+    for (const [filePath, file] of local) {
+      if (stored.get(filePath)?.sha256 === file.sha256) continue;
+      if (file.size > maxBytes) {
+        log.warn("Skipping oversized workspace file", { accountId, path: filePath, size: file.size });
+        continue;
+      }
+      const res = await this.workspaceRequest("GET", filePath);
+      if (!res.ok) continue;
+      await bucket.put(workspaceKey(accountId, filePath), await res.arrayBuffer(), {
+        customMetadata: { sha256: file.sha256 }
+      });
+      saved++;
+    }
+
+    const deleted = this.isWorkspaceRestored() ? [...stored.keys()].filter(p => !local.has(p)) : [];
+    if (deleted.length > 0) {
+      await bucket.delete(deleted.map(p => workspaceKey(accountId, p)));
+    }
+
+    log.info("Workspace snapshot saved", { accountId, files: local.size, saved, deleted: deleted.length });
+  }
+
+  /**
+   * Move a job to a terminal state
+   * Jobs that already finished (e.g. cancelled mid-run) keep their first outcome
+   */
+  private finishJob(id: string, status: JobStatus, result: JobRecord["result"], error: string | null) {
+    this.ctx.storage.sql.exec(
+      `UPDATE jobs SET status = ?, result = ?, error = ?, completed_at = ? WHERE id = ? AND status IN ('queued', 'running')`,
+      status, result ? JSON.stringify(result) : null, error, Date.now(), id
+    );
+  }
+
+  private async notifyJobWebhook(id: string) {
+    const job = await this.getJob(id);
+    if (!job?.webhookUrl) {
+      return;
+    }
+
+    // Signed like lifecycle webhooks, with the account's callback secret since the URL belongs to the job, not a subscription
+    const body = JSON.stringify({ event: "job.completed", job });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await hmacSha256Hex(await this.getCallbackSecret(), `${timestamp}.${body}`);
+
+    try {
+      // Redirects are not followed, so a public URL cannot forward the job to an internal host
+      const res = await fetch(job.webhookUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-webhook-id": job.id,
+          "x-webhook-event": "job.completed",
+          "x-webhook-timestamp": timestamp,
+          "x-webhook-signature": `sha256=${signature}`
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      if (!res.ok) {
+        log.error("Job webhook rejected", { jobId: id, status: res.status });
+      }
+    } catch (error) {
+      log.error("Job webhook delivery failed", {
+        jobId: id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private getApprovals(runId: string, status?: ApprovalStatus): ApprovalRecord[] {
+    const rows = this.ctx.storage.sql.exec<ApprovalRow>(
+      `SELECT * FROM approvals WHERE run_id = ? AND (? IS NULL OR status = ?) ORDER BY requested_at`,
+      runId, status ?? null, status ?? null
+    ).toArray();
+    return rows.map(row => ({
+      id: row.id,
+      runId: row.run_id,
+      toolName: row.tool_name,
+      input: JSON.parse(row.input),
+      status: row.status as ApprovalStatus,
+      requestedAt: new Date(row.requested_at).toISOString(),
+      expiresAt: new Date(row.expires_at).toISOString(),
+      decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : null,
+      decidedBy: row.decided_by,
+      message: row.message
+    }));
+  }
+
+  /**
+   * Record the permission requests a run is blocked on, announcing new ones on the run's webhook
+   * The container holds them (the CLI waits on its permission prompt tool), so they are pulled from it;
+   * requests it no longer has were auto-denied on timeout or ended with the run
+   * Returns false if the container is not running the run
+   */
+  private async syncApprovals(runId: string): Promise<boolean> {
+    let pending: Array<{ id: string; toolName: string; input: Record<string, unknown>; requestedAt: number; expiresAt: number }> = [];
+    let active = false;
+    if (this.ctx.container?.running) {
+      const res = await this.containerFetch(new Request(`http://container.internal/runs/${encodeURIComponent(runId)}/approvals`), 8080);
+      if (res.ok) {
+        pending = (await res.json() as { pending: typeof pending }).pending;
+        active = true;
+      }
+    }
+
+    const webhookUrl = this.ctx.storage.sql.exec<{ webhook_url: string | null }>(
+      `SELECT webhook_url FROM approval_runs WHERE run_id = ?`, runId
+    ).toArray()[0]?.webhook_url ?? null;
+    for (const approval of pending) {
+      const inserted = this.ctx.storage.sql.exec(
+        `INSERT OR IGNORE INTO approvals (id, run_id, tool_name, input, status, requested_at, expires_at) VALUES (?, ?, ?, ?, 'pending', ?, ?)`,
+        approval.id, runId, approval.toolName, JSON.stringify(approval.input ?? {}), approval.requestedAt, approval.expiresAt
+      ).rowsWritten > 0;
+      if (inserted) {
+        log.info("Approval requested", { runId, approvalId: approval.id, toolName: approval.toolName });
+        if (webhookUrl) {
+          this.ctx.waitUntil(this.announceApproval(webhookUrl, runId, approval));
+        }
+      }
+    }
+
+    const stillPending = new Set(pending.map(a => a.id));
+    for (const approval of this.getApprovals(runId, "pending")) {
+      if (!stillPending.has(approval.id)) {
+        this.ctx.storage.sql.exec(
+          `UPDATE approvals SET status = 'expired', decided_at = ?, message = ? WHERE id = ?`,
+          Date.now(), "Timed out or the run ended before a decision", approval.id
+        );
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Record a run's permission requests here while it runs, rather than only when someone asks for them
+   * Called before a run with approvals is started; the container is polled until the run is over
+   */
+  async watchApprovals(runId: string, webhookUrl: string | null): Promise<void> {
+    this.ctx.storage.sql.exec(
+      `INSERT OR REPLACE INTO approval_runs (run_id, webhook_url, created_at) VALUES (?, ?, ?)`,
+      runId, webhookUrl, Date.now()
+    );
+    const watch: ApprovalWatch = { runId, startBy: Date.now() + APPROVAL_WATCH_START_MS, seen: false };
+    await this.schedule(APPROVAL_POLL_SECONDS, "pollApprovals", watch);
+  }
+
+  async pollApprovals(watch: ApprovalWatch): Promise<void> {
+    const active = await this.syncApprovals(watch.runId);
+    // Before the run reaches the container it is not there yet; after that, it is over
+    if (!active && (watch.seen || Date.now() > watch.startBy)) {
+      this.ctx.storage.sql.exec(`DELETE FROM approval_runs WHERE run_id = ?`, watch.runId);
+      return;
+    }
+    await this.schedule(APPROVAL_POLL_SECONDS, "pollApprovals", { ...watch, seen: watch.seen || active });
+  }
+
+  /**
+   * POST approval.requested to the run's webhook, signed like tool callbacks with the account's callback secret
+   */
+  private async announceApproval(
+    webhookUrl: string,
+    runId: string,
+    approval: { id: string; toolName: string; input: Record<string, unknown>; requestedAt: number; expiresAt: number }
+  ): Promise<void> {
+    const body = JSON.stringify({
+      event: "approval.requested",
+      runId,
+      approval: {
+        id: approval.id,
+        toolName: approval.toolName,
+        input: approval.input ?? {},
+        requestedAt: new Date(approval.requestedAt).toISOString(),
+        expiresAt: new Date(approval.expiresAt).toISOString()
+      }
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await hmacSha256Hex(await this.getCallbackSecret(), `${timestamp}.${body}`);
+
+    try {
+      const res = await fetch(webhookUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-callback-timestamp": timestamp,
+          "x-callback-signature": `sha256=${signature}`
+        },
+        body,
+        // The URL was checked to be public when the run started; a redirect could still lead to an internal host
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      if (!res.ok) {
+        log.error("Approval webhook rejected", { runId, approvalId: approval.id, status: res.status });
+      }
+    } catch (error) {
+      log.error("Approval webhook delivery failed", {
+        runId,
+        approvalId: approval.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  async getPendingApprovals(runId: string): Promise<ApprovalRecord[]> {
+    await this.syncApprovals(runId);
+    return this.getApprovals(runId, "pending");
+  }
+
+  /**
+   * Approve or deny a run's pending permission requests (one, or all if approvalId is null)
+   * Returns the approvals that were decided
+   */
+  async decideApprovals(runId: string, approvalId: string | null, decision: ApprovalDecision, decidedBy: string): Promise<ApprovalRecord[]> {
+    await this.syncApprovals(runId);
+    const targets = this.getApprovals(runId, "pending").filter(a => approvalId === null || a.id === approvalId);
+
+    const decided: string[] = [];
+    for (const approval of targets) {
+      const res = await this.containerFetch(
+        new Request(`http://container.internal/runs/${encodeURIComponent(runId)}/approvals/${approval.id}`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(decision)
+        }),
+        8080
+      );
+      // The request timed out or the run ended in the meantime; the next sync expires it
+      if (!res.ok) continue;
+
+      this.ctx.storage.sql.exec(
+        `UPDATE approvals SET status = ?, decided_at = ?, decided_by = ?, message = ? WHERE id = ?`,
+        decision.behavior === "allow" ? "approved" : "denied", Date.now(), decidedBy,
+        decision.behavior === "deny" ? decision.message : null, approval.id
+      );
+      decided.push(approval.id);
+    }
+
+    log.info("Approvals decided", { runId, behavior: decision.behavior, approvals: decided, by: decidedBy });
+    return this.getApprovals(runId).filter(a => decided.includes(a.id));
+  }
+
+  /**
+   * Append an entry to the account's audit log
+   * With AUDIT_BUCKET bound, the first entry of each day schedules an export of the days before it
+   */
+  async recordAudit(accountId: string, entry: Omit<AuditEntry, "id" | "createdAt">): Promise<void> {
+    const now = Date.now();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO audit_log (id, created_at, run_id, source, key_id, key_name, prompt_hash, skill, agents, session_id,
+         route, tool_calls, outcome, error, duration_ms, cost_usd)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      crypto.randomUUID(), now, entry.runId, entry.source, entry.keyId, entry.keyName, entry.promptHash, entry.skill,
+      JSON.stringify(entry.agents), entry.sessionId, entry.route, JSON.stringify(entry.toolCalls), entry.outcome,
+      entry.error, Math.round(entry.durationMs), entry.costUsd
+    );
+
+    const today = new Date(now).toISOString().slice(0, 10);
+    if (this.env.AUDIT_BUCKET && this.getSetting<string>("audit_export_checked") !== today) {
+      this.setSetting("account_id", accountId);
+      this.setSetting("audit_export_checked", today);
+      await this.schedule(0, "exportAudit", {});
+    }
+  }
+
+  /**
+   * Audit entries between two times (epoch ms, from inclusive, to exclusive), newest first
+   * cursor is the nextCursor of the previous page
+   */
+  async listAudit(query: { from: number | null; to: number | null; cursor: string | null; limit: number }): Promise<{
+    entries: AuditEntry[];
+    nextCursor: string | null;
+  }> {
+    const [cursorAt, cursorId] = query.cursor ? query.cursor.split(":") : [null, null];
+    const rows = this.ctx.storage.sql.exec<AuditRow>(
+      `SELECT * FROM audit_log
+       WHERE (? IS NULL OR created_at >= ?) AND (? IS NULL OR created_at < ?)
+         AND (? IS NULL OR created_at < ? OR (created_at = ? AND id < ?))
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+      query.from, query.from, query.to, query.to,
+      cursorAt, Number(cursorAt), Number(cursorAt), cursorId,
+      query.limit + 1
+    ).toArray();
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      entries: page.map(row => this.toAuditEntry(row)),
+      nextCursor: rows.length > query.limit ? `${last.created_at}:${last.id}` : null
+    };
+  }
+
+  /**
+   * Write each complete (UTC) day not yet exported to AUDIT_BUCKET as audit/<accountId>/<day>.jsonl
+   * then prune exported entries older than AUDIT_EXPORTED_RETENTION_MS
+   * Runs from the alarm scheduled by recordAudit
+   */
+  async exportAudit(): Promise<void> {
+    const accountId = this.getSetting<string>("account_id");
+    if (!this.env.AUDIT_BUCKET || !accountId) {
+      return;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const days = this.ctx.storage.sql.exec<{ day: string }>(
+      `SELECT DISTINCT strftime('%Y-%m-%d', created_at / 1000, 'unixepoch') AS day FROM audit_log
+       WHERE day > ? AND day < ? ORDER BY day`,
+      this.getSetting<string>("audit_exported_through") || "", today
+    ).toArray();
+
+    for (const { day } of days) {
+      const start = Date.parse(`${day}T00:00:00Z`);
+      const rows = this.ctx.storage.sql.exec<AuditRow>(
+        `SELECT * FROM audit_log WHERE created_at >= ? AND created_at < ? ORDER BY created_at, id`,
+        start, start + 86_400_000
+      ).toArray();
+      const jsonl = rows.map(row => JSON.stringify({ accountId, ...this.toAuditEntry(row) })).join("\n") + "\n";
+
+      await this.env.AUDIT_BUCKET.put(`audit/${accountId}/${day}.jsonl`, jsonl, {
+        httpMetadata: { contentType: "application/x-ndjson" }
+      });
+      this.setSetting("audit_exported_through", day);
+      log.info("Exported audit log", { accountId, day, entries: rows.length });
+    }
+
+    // Entries on days not exported yet are kept however old they are
+    const exportedThrough = this.getSetting<string>("audit_exported_through");
+    if (exportedThrough) {
+      const cutoff = Math.min(Date.parse(`${exportedThrough}T00:00:00Z`) + 86_400_000, Date.now() - AUDIT_EXPORTED_RETENTION_MS);
+      const pruned = this.ctx.storage.sql.exec<{ count: number }>(`SELECT COUNT(*) AS count FROM audit_log WHERE created_at < ?`, cutoff).one().count;
+      if (pruned > 0) {
+        this.ctx.storage.sql.exec(`DELETE FROM audit_log WHERE created_at < ?`, cutoff);
+        log.info("Pruned exported audit entries", { accountId, entries: pruned, before: new Date(cutoff).toISOString() });
+      }
+    }
+  }
+
+  async listWebhooks(): Promise<WebhookRecord[]> {
+    const rows = this.ctx.storage.sql.exec<WebhookRow>(`SELECT * FROM webhooks ORDER BY created_at`).toArray();
+    return rows.map(row => this.toWebhookRecord(row));
+  }
+
+  /**
+   * Register a webhook endpoint, returning it with its newly generated signing secret
+   */
+  async createWebhook(accountId: string, url: string, events: WebhookEventType[]): Promise<WebhookRecord & { secret: string }> {
+    // Lifecycle events from onStop/onError need the account id for their payload
+    this.setSetting("account_id", accountId);
+    const id = crypto.randomUUID();
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const secret = `whs_${[...bytes].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+    const now = Date.now();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO webhooks (id, url, events, secret, created_at) VALUES (?, ?, ?, ?, ?)`,
+      id, url, JSON.stringify(events), secret, now
+    );
+    return { id, url, events, createdAt: new Date(now).toISOString(), secret };
+  }
+
+  /**
+   * Remove a webhook and its delivery log; pending retries are dropped
+   */
+  async deleteWebhook(id: string): Promise<boolean> {
+    const deleted = this.ctx.storage.sql.exec(`DELETE FROM webhooks WHERE id = ?`, id).rowsWritten > 0;
+    this.ctx.storage.sql.exec(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`, id);
+    return deleted;
+  }
+
+  async listWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.ctx.storage.sql.exec<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?`, webhookId, limit
+    ).toArray();
+    return rows.map(row => ({
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      event: row.event as WebhookEventType,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts,
+      responseStatus: row.response_status,
+      error: row.error,
+      createdAt: new Date(row.created_at).toISOString(),
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).toISOString() : null,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at).toISOString() : null
+    }));
+  }
+
+  /**
+   * Queue an event for every webhook subscribed to it
+   * Deliveries run from the DO alarm, so the caller never waits on the receivers
+   */
+  async emitWebhookEvent(accountId: string | null, type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    const webhooks = sql.exec<WebhookRow>(`SELECT * FROM webhooks`).toArray()
+      .filter(row => (JSON.parse(row.events) as WebhookEventType[]).includes(type));
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    sql.exec(`DELETE FROM webhook_deliveries WHERE created_at < ? AND status != 'pending'`, now - WEBHOOK_DELIVERY_RETENTION_MS);
+
+    const event = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date(now).toISOString(),
+      accountId: accountId ?? this.getSetting<string>("account_id"),
+      data
+    };
+    for (const webhook of webhooks) {
+      const deliveryId = crypto.randomUUID();
+      sql.exec(
+        `INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload, status, created_at, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+        deliveryId, webhook.id, event.id, type, JSON.stringify(event), now, now
+      );
+      await this.schedule(0, "deliverWebhook", { deliveryId });
+    }
+  }
+
+  /**
+   * Scheduled callback that POSTs one delivery, signed as HMAC-SHA256(secret, "<timestamp>.<body>")
+   * Failures (network errors or non-2xx responses) are retried until WEBHOOK_MAX_ATTEMPTS
+   */
+  async deliverWebhook({ deliveryId }: { deliveryId: string }): Promise<void> {
+    const rows = this.ctx.storage.sql.exec<WebhookDeliveryRow & { url: string; secret: string }>(
+      `SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.id = ? AND d.status = 'pending'`, deliveryId
+    ).toArray();
+    if (rows.length === 0) {
+      return;
+    }
+
+    const delivery = rows[0];
+    const attempts = delivery.attempts + 1;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    // Subscriptions created before internal hosts were refused are never called, and not retried
+    if (!isValidWebhookUrl(delivery.url)) {
+      log.error("Webhook URL is not a public http(s) URL", { deliveryId, webhookId: delivery.webhook_id });
+      this.ctx.storage.sql.exec(
+        `UPDATE webhook_deliveries SET status = 'failed', attempts = ?, error = ?, next_attempt_at = NULL WHERE id = ?`,
+        attempts, "Webhook URL is not a public http(s) URL", deliveryId
+      );
+      return;
+    }
+
+    try {
+      const res = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-webhook-id": delivery.id,
+          "x-webhook-event": delivery.event,
+          "x-webhook-timestamp": timestamp,
+          "x-webhook-signature": `sha256=${await hmacSha256Hex(delivery.secret, `${timestamp}.${delivery.payload}`)}`
+        },
+        body: delivery.payload,
+        // A redirect could lead to an internal host, so it counts as a failed delivery
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      responseStatus = res.status;
+      if (!res.ok) {
+        error = `Receiver returned ${res.status}`;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const now = Date.now();
+    if (!error) {
+      this.ctx.storage.sql.exec(
+        `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, error = NULL,
+           next_attempt_at = NULL, delivered_at = ? WHERE id = ?`,
+        attempts, responseStatus, now, deliveryId
+      );
+      return;
+    }
+
+    if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      log.error("Webhook delivery failed", { deliveryId, webhookId: delivery.webhook_id, event: delivery.event, attempts, error });
+      this.ctx.storage.sql.exec(
+        `UPDATE webhook_deliveries SET status = 'failed', attempts = ?, response_status = ?, error = ?, next_attempt_at = NULL WHERE id = ?`,
+        attempts, responseStatus, error, deliveryId
+      );
+      return;
+    }
+
+    const delaySeconds = WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1);
+    log.warn("Webhook delivery will be retried", { deliveryId, webhookId: delivery.webhook_id, attempts, delaySeconds, error });
+    this.ctx.storage.sql.exec(
+      `UPDATE webhook_deliveries SET attempts = ?, response_status = ?, error = ?, next_attempt_at = ? WHERE id = ?`,
+      attempts, responseStatus, error, now + delaySeconds * 1000, deliveryId
+    );
+    await this.schedule(delaySeconds, "deliverWebhook", { deliveryId });
+  }
+
+  private toWebhookRecord(row: WebhookRow): WebhookRecord {
+    return {
+      id: row.id,
+      url: row.url,
+      events: JSON.parse(row.events),
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+
+  private toAuditEntry(row: AuditRow): AuditEntry {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at).toISOString(),
+      runId: row.run_id,
+      source: row.source as AuditEntry["source"],
+      keyId: row.key_id,
+      keyName: row.key_name,
+      promptHash: row.prompt_hash,
+      skill: row.skill,
+      agents: JSON.parse(row.agents),
+      sessionId: row.session_id,
+      route: row.route as TriageRoute,
+      toolCalls: JSON.parse(row.tool_calls),
+      outcome: row.outcome as RunOutcome,
+      error: row.error,
+      durationMs: row.duration_ms,
+      costUsd: row.cost_usd
+    };
+  }
+
+  override onStart() {
+    // A fresh container got its tokens from envVars; its workspace is restored on the first run
+    this.pushedAccessToken = this.envVars?.CLAUDE_ACCESS_TOKEN || null;
+    log.info("Container started", {
+      port: this.defaultPort,
+      sleepAfter: this.sleepAfter,
+      authMode: this.envVars.CLAUDE_ACCESS_TOKEN ? "subscription" : "api_key"
+    });
+  }
+
+  override async onStop(status: any) {
+    log.info("Container stopped", {
+      reason: status?.reason,
+      exitCode: status?.exitCode
+    });
+    // The next container instance must not accept the old token
+    this.rotateContainerAuthToken();
+    await this.emitWebhookEvent(null, "container.stopped", {
+      reason: status?.reason ?? null,
+      exitCode: status?.exitCode ?? null,
+      error: null
+    });
+  }
+
+  // Errors come from a container that failed to start or crashed, which don't reach onStop
+  override async onError(error: unknown) {
+    log.error("Container error", { error });
+    await this.emitWebhookEvent(null, "container.stopped", {
+      reason: "error",
+      exitCode: null,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+type Bindings = {
+  AGENT_CONTAINER: DurableObjectNamespace<AgentContainer>;
+  // OAuth credentials for Max subscription
+  CLAUDE_ACCESS_TOKEN?: string;
+  CLAUDE_REFRESH_TOKEN?: string;
+  CLAUDE_EXPIRES_AT?: string;
+  // Fallback API key
+  ANTHROPIC_API_KEY?: string;
+  // Other config
+  MODEL?: string;
+  // Worker API key for request authentication
+  WORKER_API_KEY?: string;
+  // Deprecated: Legacy API_KEY (use WORKER_API_KEY instead)
+  API_KEY?: string;
+  // Registry of scoped API keys
+  KEY_REGISTRY?: DurableObjectNamespace<KeyRegistry>;
+  // Refreshed OAuth tokens (seeded from the CLAUDE_* secrets)
+  CREDENTIAL_STORE?: DurableObjectNamespace<CredentialStore>;
+  // Per-account request metrics (optional: remove to disable metrics)
+  METRICS_STORE?: DurableObjectNamespace<MetricsStore>;
+  // R2 bucket the audit log is exported to, one JSONL file per account and day (optional)
+  AUDIT_BUCKET?: R2Bucket;
+  // OAuth token endpoint overrides, e.g. for a local mock
+  OAUTH_TOKEN_URL?: string;
+  OAUTH_CLIENT_ID?: string;
+  // R2 bucket for skills
+  SKILLS_BUCKET?: R2Bucket;
+  // R2 bucket for per-account workspace files, and the largest file it will store
+  WORKSPACE_BUCKET?: R2Bucket;
+  WORKSPACE_MAX_FILE_BYTES?: string;
+  // Per-request option allowlists (comma-separated)
+  ALLOWED_MODELS?: string;
+  ALLOWED_TOOLS?: string;
+  ALLOWED_PERMISSION_MODES?: string;
+  MAX_TURNS_LIMIT?: string;
+  // Default per-account quotas ("0" disables a limit)
+  RATE_LIMIT_RPM?: string;
+  RATE_LIMIT_CONCURRENCY?: string;
+  DAILY_TOKEN_BUDGET?: string;
+  DAILY_COST_BUDGET_USD?: string;
+  // Default framework selection ("none", "bundled" or comma-separated selectors) and token cap
+  FRAMEWORK_DEFAULT?: string;
+  FRAMEWORK_MAX_TOKENS?: string;
+  // Triage before starting a container: JSON rules, and a model for direct answers to simple prompts
+  TRIAGE_RULES?: string;
+  TRIAGE_DIRECT_MODEL?: string;
+  TRIAGE_DIRECT_MAX_CHARS?: string;
+  TRIAGE_CACHE_TTL?: string;
+  // Response cache default TTL (enables caching for every /query) and upper bound, in seconds
+  RESPONSE_CACHE_TTL?: string;
+  RESPONSE_CACHE_MAX_TTL?: string;
+  // /query attachment limits and allowed content types (comma-separated, "text/*" style wildcards)
+  ATTACHMENT_MAX_COUNT?: string;
+  ATTACHMENT_MAX_BYTES?: string;
+  ATTACHMENT_MAX_TOTAL_BYTES?: string;
+  ATTACHMENT_TYPES?: string;
+  // Named MCP server definitions (JSON object of name -> stdio/http/sse config)
+  MCP_SERVERS?: string;
+  // Key the per-account MCP secrets are encrypted with (any long random string)
+  MCP_SECRETS_KEY?: string;
+  // Caller tool callbacks: per-call timeout, largest result passed back to the model, tools per run
+  TOOL_CALLBACK_TIMEOUT_MS?: string;
+  TOOL_CALLBACK_MAX_RESULT_BYTES?: string;
+  TOOL_CALLBACK_MAX_TOOLS?: string;
+  // Permission approvals: default auto-deny timeout and the longest a request may ask for, in seconds
+  APPROVAL_TIMEOUT_SECONDS?: string;
+  APPROVAL_MAX_TIMEOUT_SECONDS?: string;
+  // Lowest log level written: debug, info (default), warn or error
+  LOG_LEVEL?: string;
+};
+
+// Per-request values set by middleware
+type AppEnv = { Bindings: Bindings; Variables: { trace: TraceContext } };
+
+const NO_AUTH_MESSAGE = "No valid authentication configured. OAuth tokens expired or missing. Set valid CLAUDE_ACCESS_TOKEN + CLAUDE_REFRESH_TOKEN (for Max subscription) or ANTHROPIC_API_KEY";
+
+/**
+ * Which credentials the container can use
+ */
+interface AuthState {
+  hasOAuth: boolean;
+  hasApiKey: boolean;
+  oauth: OAuthCredentials | null;
+}
+
+/**
+ * Check for valid OAuth credentials (Max subscription) or API key fallback
+ * With a CredentialStore the tokens are refreshed as needed; otherwise the
+ * static secrets are used until CLAUDE_EXPIRES_AT
+ */
+async function resolveAuth(env: Bindings): Promise<AuthState> {
+  const hasApiKey = !!env.ANTHROPIC_API_KEY;
+  let oauth: OAuthCredentials | null = null;
+
+  if (env.CREDENTIAL_STORE) {
+    try {
+      oauth = await getCredentialStore(env).getCredentials();
+    } catch (error: any) {
+      log.error("OAuth credential store unavailable", { error: error.message });
+    }
+  } else if (env.CLAUDE_ACCESS_TOKEN && env.CLAUDE_REFRESH_TOKEN && parseInt(env.CLAUDE_EXPIRES_AT || "0") > Date.now()) {
+    oauth = {
+      accessToken: env.CLAUDE_ACCESS_TOKEN,
+      refreshToken: env.CLAUDE_REFRESH_TOKEN,
+      expiresAt: parseInt(env.CLAUDE_EXPIRES_AT || "0")
+    };
+  }
+
+  return { hasOAuth: !!oauth, hasApiKey, oauth };
+}
+
+/**
+ * Auth state for /health, which anyone can call
+ * Unlike resolveAuth this never refreshes tokens, so it cannot be used to drive calls to the token endpoint
+ */
+async function peekAuthState(env: Bindings): Promise<{ hasOAuth: boolean; hasApiKey: boolean; oauthExpiresAt: number | null }> {
+  const hasApiKey = !!env.ANTHROPIC_API_KEY;
+  let oauthExpiresAt: number | null = null;
+
+  if (env.CREDENTIAL_STORE) {
+    try {
+      const status = await getCredentialStore(env).getStatus();
+      // Before the first run the store has not been seeded from the secrets yet
+      oauthExpiresAt = status.expiresAt
+        ? Date.parse(status.expiresAt)
+        : env.CLAUDE_ACCESS_TOKEN && env.CLAUDE_REFRESH_TOKEN ? parseInt(env.CLAUDE_EXPIRES_AT || "0") || null : null;
+    } catch (error: any) {
+      log.error("OAuth credential store unavailable", { error: error.message });
+    }
+  } else if (env.CLAUDE_ACCESS_TOKEN && env.CLAUDE_REFRESH_TOKEN) {
+    oauthExpiresAt = parseInt(env.CLAUDE_EXPIRES_AT || "0") || null;
+  }
+
+  return { hasOAuth: oauthExpiresAt !== null && oauthExpiresAt > Date.now(), hasApiKey, oauthExpiresAt };
+}
+
+/** A published version of a skill, as written by scripts/sync-skills.ts */
+interface SkillVersion {
+  version: string;
+  hash: string;
+  path: string;
+  files?: string[];
+  createdAt?: string;
+}
+
+interface SkillIndexEntry {
+  name: string;
+  path: string;
+  description: string;
+  category: string;
+  version?: string;
+  hash?: string;
+  versions?: SkillVersion[];
+}
+
+/**
+ * Split a skill reference ("name" or "name@version") into its parts
+ */
+function parseSkillRef(ref: string): { name: string; version: string | null } {
+  const at = ref.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: ref, version: null };
+  }
+  return { name: ref.slice(0, at), version: ref.slice(at + 1) || null };
+}
+
+/**
+ * Find a skill in the index, pinned to a version if the reference has one
+ * Unpinned references resolve to the latest version
+ */
+function resolveSkill(skills: SkillIndexEntry[], ref: string): { entry: SkillIndexEntry; path: string; version: string | null } | null {
+  const { name, version } = parseSkillRef(ref);
+  const entry = skills.find(s => s.name === name);
+  if (!entry) {
+    return null;
+  }
+
+  if (!version || version === entry.version) {
+    return { entry, path: entry.path, version: entry.version ?? null };
+  }
+
+  const pinned = entry.versions?.find(v => v.version === version);
+  return pinned ? { entry, path: pinned.path, version: pinned.version } : null;
+}
+
+/**
+ * Load skill markdown from R2 and wrap it for prompt injection
+ * Returns an empty string if the skill cannot be loaded
+ */
+async function loadSkillContext(env: Bindings, skill: string): Promise<string> {
+  try {
+    // Fetch skill from R2
+    const index = await env.SKILLS_BUCKET?.get('index.json');
+    if (index) {
+      const indexData = await index.json() as { skills: SkillIndexEntry[] };
+      const resolved = resolveSkill(indexData.skills, skill);
+      if (resolved) {
+        const skillContent = await env.SKILLS_BUCKET?.get(resolved.path);
+        if (skillContent) {
+          const skillText = await skillContent.text();
+          const label = resolved.version ? `${resolved.entry.name}@${resolved.version}` : resolved.entry.name;
+          return `\n\n---\n\n# Active Skill: ${label}\n\n${skillText}\n\n---\n\n`;
+        }
+      } else {
+        log.warn("Skill not found in index", { skill });
+      }
+    }
+  } catch (e: any) {
+    log.error("Failed to load skill", { skill, error: e.message });
+  }
+  return '';
+}
+
+interface AgentIndexEntry {
+  name: string;
+  path: string;
+  description: string;
+  category: string;
+  tier?: string;
+}
+
+const MAX_AGENTS_PER_RUN = 10;
+const AGENT_MODEL_ALIASES = ["sonnet", "opus", "haiku", "inherit"];
+
+/**
+ * Parse `key: value` frontmatter at the top of an agent definition
+ */
+function parseAgentMarkdown(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { fields: {}, body: text.trim() };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z_-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return { fields, body: text.slice(match[0].length).trim() };
+}
+
+/**
+ * Load agent definitions ("category/name" or "name") from R2
+ * The first matching agent wins when a bare name exists in several categories
+ */
+async function loadAgentDefinitions(
+  env: Bindings,
+  refs: string[]
+): Promise<{ agents: Array<{ ref: string; name: string; definition: AgentDefinition }> } | { error: string }> {
+  const index = await env.SKILLS_BUCKET?.get('agents/index.json');
+  if (!index) {
+    return { error: 'Agents index not found' };
+  }
+  const indexData = await index.json() as { agents: AgentIndexEntry[] };
+
+  const agents: Array<{ ref: string; name: string; definition: AgentDefinition }> = [];
+  for (const ref of refs) {
+    const [category, name] = ref.includes('/') ? ref.split('/', 2) : [null, ref];
+    const entry = indexData.agents.find(a =>
+      (category === null || a.category === category) && (a.name === name || a.name === `${name}.md`)
+    );
+    if (!entry) {
+      return { error: `Agent '${ref}' not found` };
+    }
+
+    const file = await env.SKILLS_BUCKET?.get(`agents/${entry.path}`);
+    if (!file) {
+      return { error: `Agent file for '${ref}' not found` };
+    }
+
+    const { fields, body } = parseAgentMarkdown(await file.text());
+    const definition: AgentDefinition = {
+      description: fields.description || entry.description,
+      prompt: body
+    };
+    if (fields.tools) {
+      definition.tools = fields.tools.split(',').map(t => t.trim()).filter(Boolean);
+    }
+    if (fields.model && AGENT_MODEL_ALIASES.includes(fields.model)) {
+      definition.model = fields.model;
+    }
+
+    agents.push({ ref, name: fields.name || entry.name, definition });
+  }
+
+  return { agents };
+}
+
+/**
+ * Resolve the `agents` (subagents) and `agent` (primary persona) request fields into run options
+ * Subagents are passed to the CLI with --agents; the persona is appended to the system prompt
+ * Unknown agents and a missing agents index are 404s, like the /agents routes
+ */
+async function applyAgentOptions(env: Bindings, body: any, options: RunOptions): Promise<{ error: string; status: 400 | 404 } | null> {
+  const refs: string[] = body.agents ?? [];
+  if (!Array.isArray(refs) || !refs.every(r => typeof r === "string" && r.length > 0)) {
+    return { error: "agents must be an array of agent names ('category/name' or 'name')", status: 400 };
+  }
+  if (refs.length > MAX_AGENTS_PER_RUN) {
+    return { error: `At most ${MAX_AGENTS_PER_RUN} agents can be loaded per run`, status: 400 };
+  }
+  if (body.agent !== undefined && (typeof body.agent !== "string" || !body.agent)) {
+    return { error: "agent must be an agent name ('category/name' or 'name')", status: 400 };
+  }
+  if (refs.length === 0 && !body.agent) {
+    return null;
+  }
+
+  const loaded = await loadAgentDefinitions(env, body.agent ? [...refs, body.agent] : refs);
+  if ('error' in loaded) {
+    return { error: loaded.error, status: 404 };
+  }
+
+  const subagents = body.agent ? loaded.agents.slice(0, -1) : loaded.agents;
+  if (subagents.length > 0) {
+    options.agents = Object.fromEntries(subagents.map(a => [a.name, a.definition]));
+  }
+
+  if (body.agent) {
+    const persona = loaded.agents[loaded.agents.length - 1];
+    const personaPrompt = `# Agent: ${persona.name}\n\n${persona.definition.prompt}`;
+    const appendSystemPrompt = options.appendSystemPrompt
+      ? `${options.appendSystemPrompt}\n\n${personaPrompt}`
+      : personaPrompt;
+    if (appendSystemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      return { error: `appendSystemPrompt with agent '${body.agent}' exceeds ${MAX_SYSTEM_PROMPT_LENGTH} characters`, status: 400 };
+    }
+    options.appendSystemPrompt = appendSystemPrompt;
+  }
+
+  log.info("Loaded agents", { agents: loaded.agents.map(a => a.ref) });
+  return null;
+}
+
+const MCP_SERVER_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const MCP_SECRET_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+const MCP_SECRET_REFERENCE = /\$\{secret:([A-Za-z0-9_]+)\}/g;
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    && Object.values(value).every(v => typeof v === "string");
+}
+
+function isMcpServerConfig(value: any): value is McpServerConfig {
+  if (typeof value !== "object" || value === null) return false;
+  if (value.type === "stdio") {
+    return typeof value.command === "string" && value.command.length > 0
+      && (value.args === undefined || (Array.isArray(value.args) && value.args.every((a: unknown) => typeof a === "string")))
+      && (value.env === undefined || isStringRecord(value.env));
+  }
+  if (value.type === "http" || value.type === "sse") {
+    return typeof value.url === "string" && /^https?:\/\//.test(value.url)
+      && (value.headers === undefined || isStringRecord(value.headers));
+  }
+  return false;
+}
+
+/**
+ * Named MCP servers from MCP_SERVERS; malformed entries are logged and skipped
+ */
+function parseMcpCatalog(env: Bindings): Record<string, McpServerConfig> {
+  if (!env.MCP_SERVERS) {
+    return {};
+  }
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(env.MCP_SERVERS);
+  } catch (error: any) {
+    log.error("Ignoring invalid MCP_SERVERS", { error: error.message });
+    return {};
+  }
+
+  const catalog: Record<string, McpServerConfig> = {};
+  for (const [name, config] of Object.entries(parsed || {})) {
+    if (!MCP_SERVER_NAME_PATTERN.test(name) || RESERVED_MCP_SERVERS.includes(name) || !isMcpServerConfig(config)) {
+      log.error("Ignoring invalid MCP server definition", { name });
+      continue;
+    }
+    catalog[name] = config;
+  }
+  return catalog;
+}
+
+/**
+ * Secret names a server definition references
+ */
+function mcpSecretNames(config: McpServerConfig): string[] {
+  return [...JSON.stringify(config).matchAll(MCP_SECRET_REFERENCE)].map(m => m[1]);
+}
+
+/**
+ * Substitute ${secret:NAME} references in every string of a server definition
+ */
+function resolveMcpSecrets(config: McpServerConfig, secrets: Record<string, string>): McpServerConfig {
+  const substitute = (value: string) => value.replace(MCP_SECRET_REFERENCE, (_, name: string) => secrets[name]);
+  const substituteAll = (record?: Record<string, string>) =>
+    record && Object.fromEntries(Object.entries(record).map(([k, v]) => [k, substitute(v)]));
+
+  if (config.type === "stdio") {
+    return { ...config, command: substitute(config.command), args: config.args?.map(substitute), env: substituteAll(config.env) };
+  }
+  return { ...config, url: substitute(config.url), headers: substituteAll(config.headers) };
+}
+
+/**
+ * Resolve the `mcpServers` request field (or the account's default servers) into run options
+ * Each server must be defined in MCP_SERVERS and have every secret it references set for the account
+ */
+async function applyMcpOptions(env: Bindings, accountId: string, body: any, options: RunOptions): Promise<string | null> {
+  if (body.mcpServers !== undefined
+    && (!Array.isArray(body.mcpServers) || !body.mcpServers.every((n: unknown) => typeof n === "string" && n.length > 0))) {
+    return "mcpServers must be an array of MCP server names";
+  }
+
+  const catalog = parseMcpCatalog(env);
+  if (body.mcpServers === undefined && Object.keys(catalog).length === 0) {
+    return null;
+  }
+
+  const settings = await getAgentContainer(env, accountId).getMcpSettings();
+  const names: string[] = [...new Set<string>(body.mcpServers ?? settings.defaultServers)];
+  if (names.length === 0) {
+    return null;
+  }
+
+  const servers: Record<string, McpServerConfig> = {};
+  for (const name of names) {
+    const config = catalog[name];
+    if (!config) {
+      return `MCP server '${name}' is not configured`;
+    }
+    const missing = mcpSecretNames(config).filter(secret => !(secret in settings.secrets));
+    if (missing.length > 0) {
+      return `MCP server '${name}' needs secrets that are not set for account '${accountId}': ${[...new Set(missing)].join(', ')}`;
+    }
+    servers[name] = resolveMcpSecrets(config, settings.secrets);
+  }
+
+  options.mcpServers = servers;
+  log.info("Attached MCP servers", { servers: names });
+  return null;
+}
+
+// MCP server names the container serves caller tools and the permission prompt under
+const CALLBACK_MCP_SERVER = "callbacks";
+const APPROVAL_MCP_SERVER = "approvals";
+const RESERVED_MCP_SERVERS = [CALLBACK_MCP_SERVER, APPROVAL_MCP_SERVER];
+const CALLBACK_TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const DEFAULT_TOOL_CALLBACK_TIMEOUT_MS = 10000;
+const DEFAULT_TOOL_CALLBACK_MAX_RESULT_BYTES = 100 * 1024;
+const DEFAULT_TOOL_CALLBACK_MAX_TOOLS = 20;
+
+/**
+ * Validate one entry of the `tools` request field
+ */
+function parseCallbackTool(value: any): CallbackTool | string {
+  if (typeof value !== "object" || value === null) {
+    return "each tool must be an object with name, description, inputSchema and callbackUrl";
+  }
+  if (typeof value.name !== "string" || !CALLBACK_TOOL_NAME_PATTERN.test(value.name)) {
+    return "tool name must be 1-64 letters, digits, '_' or '-'";
+  }
+  if (typeof value.description !== "string" || !value.description.trim()) {
+    return `tool '${value.name}' needs a description`;
+  }
+  const schema = value.inputSchema ?? { type: "object", properties: {} };
+  if (typeof schema !== "object" || Array.isArray(schema) || schema.type !== "object") {
+    return `tool '${value.name}' inputSchema must be a JSON schema of type "object"`;
+  }
+  if (typeof value.callbackUrl !== "string" || !isValidWebhookUrl(value.callbackUrl)) {
+    return `tool '${value.name}' callbackUrl must be an http(s) URL`;
+  }
+  return { name: value.name, description: value.description, inputSchema: schema, callbackUrl: value.callbackUrl };
+}
+
+/**
+ * Resolve the `tools` request field into run options
+ * Registered tools are auto-approved, since the caller asked for them explicitly
+ */
+async function applyToolCallbacks(env: Bindings, accountId: string, body: any, options: RunOptions): Promise<string | null> {
+  if (body.tools === undefined) {
+    return null;
+  }
+  const maxTools = parseInt(env.TOOL_CALLBACK_MAX_TOOLS || "") || DEFAULT_TOOL_CALLBACK_MAX_TOOLS;
+  if (!Array.isArray(body.tools) || body.tools.length === 0) {
+    return "tools must be a non-empty array of tool definitions";
+  }
+  if (body.tools.length > maxTools) {
+    return `At most ${maxTools} tools can be registered per run`;
+  }
+
+  const tools: CallbackTool[] = [];
+  for (const value of body.tools) {
+    const tool = parseCallbackTool(value);
+    if (typeof tool === "string") {
+      return tool;
+    }
+    if (tools.some(t => t.name === tool.name)) {
+      return `Duplicate tool name '${tool.name}'`;
+    }
+    tools.push(tool);
+  }
+
+  options.callbacks = {
+    tools,
+    secret: await getAgentContainer(env, accountId).getCallbackSecret(),
+    timeoutMs: parseInt(env.TOOL_CALLBACK_TIMEOUT_MS || "") || DEFAULT_TOOL_CALLBACK_TIMEOUT_MS,
+    maxResultBytes: parseInt(env.TOOL_CALLBACK_MAX_RESULT_BYTES || "") || DEFAULT_TOOL_CALLBACK_MAX_RESULT_BYTES
+  };
+  options.allowedTools = [...(options.allowedTools || []), `mcp__${CALLBACK_MCP_SERVER}`];
+  log.info("Registered callback tools", { tools: tools.map(t => t.name) });
+  return null;
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 300;
+const DEFAULT_APPROVAL_MAX_TIMEOUT_SECONDS = 3600;
+
+/**
+ * Resolve the `approvals` request field (true, or { timeoutSeconds, webhookUrl }) into run options
+ */
+function applyApprovalOptions(env: Bindings, body: any, options: RunOptions): string | null {
+  if (body.approvals === undefined || body.approvals === false) {
+    return null;
+  }
+  const settings = body.approvals === true ? {} : body.approvals;
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    return "approvals must be true or an object with timeoutSeconds and webhookUrl";
+  }
+
+  const maxTimeout = parseInt(env.APPROVAL_MAX_TIMEOUT_SECONDS || "") || DEFAULT_APPROVAL_MAX_TIMEOUT_SECONDS;
+  const timeoutSeconds = settings.timeoutSeconds ?? (parseInt(env.APPROVAL_TIMEOUT_SECONDS || "") || DEFAULT_APPROVAL_TIMEOUT_SECONDS);
+  if (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0 || timeoutSeconds > maxTimeout) {
+    return `approvals.timeoutSeconds must be an integer between 1 and ${maxTimeout}`;
+  }
+  if (settings.webhookUrl !== undefined && (typeof settings.webhookUrl !== "string" || !isValidWebhookUrl(settings.webhookUrl))) {
+    return "approvals.webhookUrl must be an http(s) URL";
+  }
+
+  options.approvals = {
+    timeoutMs: timeoutSeconds * 1000,
+    webhookUrl: settings.webhookUrl ?? null
+  };
+  return null;
+}
+
+/**
+ * Validate the body of POST /runs/:id/approve|deny
+ */
+function parseApprovalDecision(behavior: "allow" | "deny", body: any): { approvalId: string | null; decision: ApprovalDecision } | { error: string } {
+  if (body.approvalId !== undefined && (typeof body.approvalId !== "string" || !body.approvalId)) {
+    return { error: "approvalId must be a string" };
+  }
+  const approvalId = body.approvalId ?? null;
+
+  if (behavior === "deny") {
+    if (body.message !== undefined && typeof body.message !== "string") {
+      return { error: "message must be a string" };
+    }
+    return { approvalId, decision: { behavior, message: body.message || "Denied by reviewer" } };
+  }
+
+  // Reviewers may approve an edited version of the tool input
+  if (body.updatedInput !== undefined && (typeof body.updatedInput !== "object" || body.updatedInput === null || Array.isArray(body.updatedInput))) {
+    return { error: "updatedInput must be an object" };
+  }
+  return { approvalId, decision: body.updatedInput ? { behavior, updatedInput: body.updatedInput } : { behavior } };
+}
+
+const DEFAULT_FRAMEWORK_MAX_TOKENS = 20000;
+
+/**
+ * Validate a framework selection from a request or profile
+ * Returns null if it is malformed
+ */
+function parseFrameworkSelection(value: unknown): FrameworkSelection | null {
+  if (value === "none" || value === "bundled") {
+    return value;
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === "string" && v.length > 0)) {
+    return value;
+  }
+  return null;
+}
+
+/**
+ * Worker-wide framework defaults, overridable per account via /admin/accounts/:accountId/framework
+ * Without FRAMEWORK_DEFAULT the bundled framework-context.txt is used, as before, if it fits maxTokens
+ */
+function defaultFrameworkProfile(env: Bindings): FrameworkProfile {
+  const configured = env.FRAMEWORK_DEFAULT?.trim();
+  const framework = configured === "none" || configured === "bundled"
+    ? configured
+    : parseList(configured, []);
+  return {
+    framework: Array.isArray(framework) && framework.length === 0 ? "bundled" : framework,
+    maxTokens: parseLimit(env.FRAMEWORK_MAX_TOKENS, DEFAULT_FRAMEWORK_MAX_TOKENS),
+  };
+}
+
+/** Rough token estimate, matching the container's framework logging */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Assemble framework files from R2 in selector order, skipping any that would exceed maxTokens
+ */
+async function assembleFramework(
+  env: Bindings,
+  selectors: string[],
+  maxTokens: number | null
+): Promise<{ context: string; files: string[]; skipped: string[]; tokens: number } | { error: string }> {
+  const index = await env.SKILLS_BUCKET?.get('framework/index.json');
+  if (!index) {
+    return { error: 'Framework index not found' };
+  }
+  const indexData = await index.json() as { files: Array<{ name: string; path: string; category: string }> };
+
+  const selected: Array<{ name: string; path: string }> = [];
+  for (const selector of selectors) {
+    const matches = selector.startsWith('category:')
+      ? indexData.files.filter(f => f.category === selector.slice('category:'.length))
+      : indexData.files.filter(f => f.name === selector || f.name === `${selector}.md`);
+    if (matches.length === 0) {
+      return { error: `Framework selector '${selector}' matched no files` };
+    }
+    for (const file of matches) {
+      if (!selected.some(s => s.path === file.path)) {
+        selected.push(file);
+      }
+    }
+  }
+
+  const sections: string[] = [];
+  const files: string[] = [];
+  const skipped: string[] = [];
+  let tokens = 0;
+  for (const file of selected) {
+    const content = await env.SKILLS_BUCKET?.get(`framework/${file.path}`);
+    if (!content) {
+      skipped.push(file.name);
+      continue;
+    }
+    const text = (await content.text()).trim();
+    const fileTokens = estimateTokens(text);
+    if (maxTokens !== null && tokens + fileTokens > maxTokens) {
+      skipped.push(file.name);
+      continue;
+    }
+    sections.push(text);
+    files.push(file.name);
+    tokens += fileTokens;
+  }
+
+  return { context: sections.join('\n\n---\n\n'), files, skipped, tokens };
+}
+
+/**
+ * Decide the framework context for a run from the request, the account profile and the Worker defaults
+ * frameworkContext is undefined when the container should use its bundled file
+ */
+async function resolveFrameworkContext(
+  env: Bindings,
+  accountId: string,
+  body: any
+): Promise<{ frameworkContext: string | undefined } | { error: string }> {
+  let requested: FrameworkSelection | undefined;
+  if (body.framework !== undefined) {
+    const parsed = parseFrameworkSelection(body.framework);
+    if (!parsed) {
+      return { error: "framework must be 'none', 'bundled' or a non-empty array of file names / 'category:<name>' selectors" };
+    }
+    requested = parsed;
+  }
+
+  if (body.frameworkMaxTokens !== undefined && !(Number.isInteger(body.frameworkMaxTokens) && body.frameworkMaxTokens > 0)) {
+    return { error: "frameworkMaxTokens must be a positive integer" };
+  }
+
+  const profile = { ...defaultFrameworkProfile(env), ...await getAgentContainer(env, accountId).getFrameworkProfile() };
+  const selection = requested ?? profile.framework;
+
+  // Requests can lower the token cap but not raise it
+  const maxTokens = body.frameworkMaxTokens !== undefined
+    ? Math.min(body.frameworkMaxTokens, profile.maxTokens ?? Infinity)
+    : profile.maxTokens;
+
+  // The bundled file is capped like any other selection; a default that is too large falls back to none
+  if (selection === "bundled") {
+    const tokens = estimateTokens(BUNDLED_FRAMEWORK);
+    if (maxTokens === null || tokens <= maxTokens) {
+      return { frameworkContext: undefined };
+    }
+    if (requested === "bundled") {
+      return { error: `The bundled framework context is about ${tokens} tokens, over the cap of ${maxTokens}` };
+    }
+    log.warn("Bundled framework context exceeds the token cap, sending none", { accountId, tokens, maxTokens });
+    return { frameworkContext: "" };
+  }
+  if (selection === "none") {
+    return { frameworkContext: "" };
+  }
+
+  const assembled = await assembleFramework(env, selection, maxTokens);
+  if ('error' in assembled) {
+    return assembled;
+  }
+
+  log.info("Assembled framework context", {
+    accountId,
+    files: assembled.files,
+    skipped: assembled.skipped,
+    tokens: assembled.tokens
+  });
+  return { frameworkContext: assembled.context };
+}
+
+const DEFAULT_ALLOWED_MODELS = ["claude-sonnet-4-5", "claude-opus-4-1", "claude-haiku-4-5"];
+// acceptEdits and bypassPermissions must be enabled explicitly via ALLOWED_PERMISSION_MODES:
+// either lets the CLI write files without approval, which the read-only default tools do not allow
+const DEFAULT_PERMISSION_MODES = ["default", "plan"];
+// Read-only tools plus subagents; anything that writes, runs commands or fetches must be enabled via ALLOWED_TOOLS
+const DEFAULT_ALLOWED_TOOLS = ["Read", "Grep", "Glob", "LS", "WebSearch", "Task", "TodoWrite"];
+const DEFAULT_MAX_TURNS_LIMIT = 50;
+const MAX_SYSTEM_PROMPT_LENGTH = 50000;
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_*-]+(\(.*\))?$/;
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  return value ? value.split(',').map(v => v.trim()).filter(Boolean) : fallback;
+}
+
+/**
+ * Validate per-request CLI options against the Worker-side allowlists
+ * Returns the first problem found as an error message
+ */
+function parseRunOptions(body: any, env: Bindings): { options: RunOptions } | { error: string } {
+  const options: RunOptions = {};
+
+  if (body.model !== undefined) {
+    const allowedModels = parseList(env.ALLOWED_MODELS, [...DEFAULT_ALLOWED_MODELS, env.MODEL || "claude-sonnet-4-5"]);
+    if (typeof body.model !== "string" || !allowedModels.includes(body.model)) {
+      return { error: `model must be one of: ${allowedModels.join(', ')}` };
+    }
+    options.model = body.model;
+  }
+
+  for (const field of ["systemPrompt", "appendSystemPrompt"] as const) {
+    if (body[field] !== undefined) {
+      if (typeof body[field] !== "string" || body[field].length > MAX_SYSTEM_PROMPT_LENGTH) {
+        return { error: `${field} must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` };
+      }
+      options[field] = body[field];
+    }
+  }
+
+  if (body.maxTurns !== undefined) {
+    const limit = parseInt(env.MAX_TURNS_LIMIT || "") || DEFAULT_MAX_TURNS_LIMIT;
+    if (!Number.isInteger(body.maxTurns) || body.maxTurns < 1 || body.maxTurns > limit) {
+      return { error: `maxTurns must be an integer between 1 and ${limit}` };
+    }
+    options.maxTurns = body.maxTurns;
+  }
+
+  for (const field of ["allowedTools", "disallowedTools"] as const) {
+    if (body[field] !== undefined) {
+      const tools = body[field];
+      if (!Array.isArray(tools) || !tools.every(t => typeof t === "string" && TOOL_NAME_PATTERN.test(t))) {
+        return { error: `${field} must be an array of tool names` };
+      }
+      options[field] = tools;
+    }
+  }
+
+  // Only allowedTools can widen access, so only it is checked against ALLOWED_TOOLS
+  // Entries match exactly: an allowlisted "Bash" does not admit "Bash(rm -rf:*)", which must be listed itself
+  // Tools of the MCP servers the request selects are admitted, since those servers are already operator-approved
+  if (options.allowedTools) {
+    const allowedTools = parseList(env.ALLOWED_TOOLS, DEFAULT_ALLOWED_TOOLS);
+    const mcpServers = Array.isArray(body.mcpServers) ? body.mcpServers.filter((n: unknown) => typeof n === "string") : [];
+    const denied = options.allowedTools.filter(t =>
+      !allowedTools.includes(t) && !mcpServers.some((name: string) => t === `mcp__${name}` || t.startsWith(`mcp__${name}__`))
+    );
+    if (denied.length > 0) {
+      return { error: `Tools not permitted: ${denied.join(', ')}` };
+    }
+  }
+
+  if (body.permissionMode !== undefined) {
+    const allowedModes = parseList(env.ALLOWED_PERMISSION_MODES, DEFAULT_PERMISSION_MODES);
+    if (!allowedModes.includes(body.permissionMode)) {
+      return { error: `permissionMode must be one of: ${allowedModes.join(', ')}` };
+    }
+    options.permissionMode = body.permissionMode;
+  }
+
+  return { options };
+}
+
+/**
+ * Parse a quota env var: unset uses the fallback, "0" disables the limit
+ */
+function parseLimit(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const limit = parseFloat(value);
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Worker-wide default quotas, overridable per account via /admin/accounts/:accountId/limits
+ */
+function defaultQuotaLimits(env: Bindings): QuotaLimits {
+  return {
+    requestsPerMinute: parseLimit(env.RATE_LIMIT_RPM, 60),
+    maxConcurrent: parseLimit(env.RATE_LIMIT_CONCURRENCY, 3),
+    dailyTokenBudget: parseLimit(env.DAILY_TOKEN_BUDGET, null),
+    dailyCostBudgetUsd: parseLimit(env.DAILY_COST_BUDGET_USD, null),
+  };
+}
+
+/**
+ * Enforce the account's quotas before a container is started
+ * A run that holds a lease keeps it for as long as its CLI may take
+ * X-RateLimit-* headers are set on the eventual response either way
+ */
+async function enforceQuota(
+  c: Context<AppEnv>,
+  accountId: string,
+  lease: { runId: string; options: RunOptions } | null
+): Promise<{ leaseId: string | null } | { response: Response }> {
+  const decision = await getAgentContainer(c.env, accountId).acquireQuota(
+    defaultQuotaLimits(c.env),
+    lease && { runId: lease.runId, ttlMs: cliTimeoutMs(lease.options) + QUOTA_LEASE_GRACE_MS }
+  );
+
+  if (decision.rateLimit) {
+    c.header('X-RateLimit-Limit', String(decision.rateLimit.limit));
+    c.header('X-RateLimit-Remaining', String(decision.rateLimit.remaining));
+    c.header('X-RateLimit-Reset', String(decision.rateLimit.reset));
+  }
+
+  if (!decision.allowed) {
+    log.info("Quota rejected request", { accountId, reason: decision.reason });
+    c.header('Retry-After', String(decision.retryAfter));
+    return { response: c.json({ error: 'Rate limit exceeded', message: decision.reason }, 429) };
+  }
+
+  return { leaseId: decision.leaseId };
+}
+
+/**
+ * Release a quota lease once the response no longer needs it
+ */
+function releaseQuota(c: Context<AppEnv>, accountId: string, leaseId: string | null, metadata: RunMetadata | null) {
+  c.executionCtx.waitUntil(
+    getAgentContainer(c.env, accountId).releaseQuota(leaseId, metadata).catch((error: any) => {
+      log.error("Failed to release quota lease", { accountId, leaseId, error: error.message });
+    })
+  );
+}
+
+/**
+ * Add a finished request to the account's metrics, without delaying the response
+ */
+function recordRun(c: Context<AppEnv>, sample: RunSample) {
+  if (!c.env.METRICS_STORE) {
+    return;
+  }
+  c.executionCtx.waitUntil(
+    getMetricsStore(c.env).record(sample).catch((error: any) => {
+      log.error("Failed to record metrics", { accountId: sample.accountId, error: error.message });
+    })
+  );
+}
+
+/**
+ * Append a finished request to the account's audit log, without delaying the response
+ */
+function recordAudit(c: Context<AppEnv>, accountId: string, entry: Omit<AuditEntry, "id" | "createdAt">) {
+  c.executionCtx.waitUntil(
+    getAgentContainer(c.env, accountId).recordAudit(accountId, entry).catch((error: any) => {
+      log.error("Failed to record audit entry", { accountId, runId: entry.runId, error: error.message });
+    })
+  );
+}
+
+/**
+ * How a request ended, as passed to a route's finish(); the rest of its metrics sample and audit entry come from the request
+ */
+type RequestResult = Pick<RunSample, "outcome"> & Partial<RunSample> & {
+  runId?: string | null;
+  toolCalls?: AuditToolCall[];
+  error?: string | null;
+  timedOut?: boolean;
+};
+
+/**
+ * Queue a run lifecycle event for the account's webhooks, without delaying the response
+ */
+function emitRunEvent(c: Context<AppEnv>, accountId: string, type: WebhookEventType, data: Record<string, any>) {
+  c.executionCtx.waitUntil(
+    getAgentContainer(c.env, accountId).emitWebhookEvent(accountId, type, data).catch((error: any) => {
+      log.error("Failed to queue webhook event", { accountId, type, runId: data.runId, error: error.message });
+    })
+  );
+}
+
+/**
+ * Webhook event for a finished run: cancelled runs count as failed
+ */
+function runEventType(outcome: RunOutcome, timedOut: boolean): WebhookEventType {
+  if (outcome === "success") {
+    return "run.completed";
+  }
+  return timedOut ? "run.timeout" : "run.failed";
+}
+
+/**
+ * Payload of run.completed, run.failed and run.timeout events
+ */
+function runEventData(sample: RunSample, runId: string, sessionId: string | null, error: string | null): Record<string, any> {
+  return {
+    runId,
+    source: sample.source,
+    sessionId,
+    skill: sample.skill,
+    outcome: sample.outcome,
+    exitCode: sample.exitCode,
+    error,
+    durationMs: sample.totalMs,
+    metadata: sample.metadata
+  };
+}
+
+/**
+ * Agents a request asked for (subagents, then the persona)
+ */
+function requestedAgents(body: any): string[] {
+  return [...(Array.isArray(body.agents) ? body.agents : []), ...(body.agent ? [body.agent] : [])];
+}
+
+/**
+ * Outcome of a non-streaming container run, from its response
+ */
+function containerRunOutcome(res: Response, data: ContainerRunResponse): RunOutcome {
+  if (data.status === "cancelled") {
+    return "cancelled";
+  }
+  return res.ok && data.metadata && !data.metadata.isError ? "success" : "error";
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Render all-time metrics in the Prometheus text exposition format
+ */
+function renderPrometheusMetrics({ series, latency }: { series: MetricsSeries[]; latency: LatencyBucketRow[] }): string {
+  const lines: string[] = [];
+  const labels = (values: Record<string, string>) =>
+    `{${Object.entries(values).map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+  const metric = (name: string, type: string, help: string, samples: Array<[Record<string, string>, number]>) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [values, value] of samples) {
+      lines.push(`${name}${labels(values)} ${value}`);
+    }
+  };
+  // Sum a counter over the label sets that share a key
+  const sumBy = (keyOf: (row: MetricsSeries) => Record<string, string>, valueOf: (row: MetricsSeries) => number) => {
+    const sums = new Map<string, [Record<string, string>, number]>();
+    for (const row of series) {
+      const values = keyOf(row);
+      const key = JSON.stringify(values);
+      sums.set(key, [values, (sums.get(key)?.[1] || 0) + valueOf(row)]);
+    }
+    return [...sums.values()];
+  };
+
+  metric("claude_agent_runs_total", "counter", "Requests past the quota check, by where they were answered and how they ended",
+    series.map(row => [{
+      account: row.account_id,
+      source: row.source,
+      route: row.route,
+      auth_mode: row.auth_mode,
+      skill: row.skill,
+      model: row.model,
+      outcome: row.outcome,
+      exit_code: row.exit_code
+    }, row.runs]));
+  metric("claude_agent_container_cold_starts_total", "counter", "Requests that had to start their account's container",
+    sumBy(row => ({ account: row.account_id }), row => row.cold_starts));
+  metric("claude_agent_tokens_total", "counter", "Tokens used, by type",
+    ([["input", "input_tokens"], ["output", "output_tokens"], ["cache_creation", "cache_creation_tokens"], ["cache_read", "cache_read_tokens"]] as const)
+      .flatMap(([type, column]) => sumBy(row => ({ account: row.account_id, model: row.model, type }), row => row[column])));
+  metric("claude_agent_cost_usd_total", "counter", "Reported cost in USD",
+    sumBy(row => ({ account: row.account_id, model: row.model }), row => row.cost_usd));
+
+  // Buckets are stored individually; Prometheus expects them cumulative
+  const histogram = "claude_agent_run_duration_seconds";
+  lines.push(`# HELP ${histogram} Request latency: container start, CLI execution and total`, `# TYPE ${histogram} histogram`);
+  const groups = new Map<string, LatencyBucketRow[]>();
+  for (const row of latency) {
+    const key = `${row.account_id}\0${row.phase}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  for (const rows of groups.values()) {
+    const { account_id: account, phase } = rows[0];
+    let count = 0;
+    let sumMs = 0;
+    for (let bucket = 0; bucket <= LATENCY_BUCKETS_MS.length; bucket++) {
+      const row = rows.find(r => r.bucket === bucket);
+      count += row?.count || 0;
+      sumMs += row?.sum_ms || 0;
+      const le = bucket < LATENCY_BUCKETS_MS.length ? String(LATENCY_BUCKETS_MS[bucket] / 1000) : "+Inf";
+      lines.push(`${histogram}_bucket${labels({ account, phase, le })} ${count}`);
+    }
+    lines.push(`${histogram}_sum${labels({ account, phase })} ${sumMs / 1000}`);
+    lines.push(`${histogram}_count${labels({ account, phase })} ${count}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * How a streamed run ended, and the tools it invoked along the way
+ */
+interface RunStreamEnd {
+  outcome: RunOutcome;
+  exitCode: number | null;
+  error: string | null;
+  timedOut: boolean;
+  toolCalls: AuditToolCall[];
+}
+
+/**
+ * Pass an SSE body through untouched while picking out the final result event
+ * onComplete runs once when the stream ends, with the run metadata and response if a result was seen,
+ * and how the run ended (an error event carries the CLI exit code)
+ * A client that disconnects or cancels the stream ends it as "cancelled", so its lease is still released,
+ * and onCancel is called to stop the run itself
+ */
+function watchRunStream(
+  body: ReadableStream<Uint8Array>,
+  onComplete: (metadata: RunMetadata | null, response: string | null, end: RunStreamEnd) => void,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let metadata: RunMetadata | null = null;
+  let response: string | null = null;
+  let end: Omit<RunStreamEnd, "toolCalls"> | null = null;
+  const toolCalls: AuditToolCall[] = [];
+  let completed = false;
+  const complete = (ended: Omit<RunStreamEnd, "toolCalls">) => {
+    if (completed) return;
+    completed = true;
+    onComplete(metadata, response, { ...ended, toolCalls });
+  };
+
+  const watched = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+
+      buffer += decoder.decode(chunk, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        if (event.startsWith('event: tool_use\n') || event.startsWith('event: tool_result\n')) {
+          try {
+            const data = JSON.parse(event.slice(event.indexOf('\ndata: ') + 7));
+            if (event.startsWith('event: tool_use\n')) {
+              toolCalls.push({ id: data.id, name: data.name, input: data.input ?? {}, isError: null });
+            } else {
+              const call = toolCalls.find(t => t.id === data.toolUseId);
+              if (call) call.isError = !!data.isError;
+            }
+          } catch {
+            log.warn("Could not parse tool event");
+          }
+          continue;
+        }
+        if (event.startsWith('event: cancelled\n')) {
+          end = { outcome: "cancelled", exitCode: null, error: null, timedOut: false };
+          continue;
+        }
+        if (event.startsWith('event: error\n')) {
+          try {
+            const error = JSON.parse(event.slice(event.indexOf('\ndata: ') + 7)) as {
+              error?: string;
+              exitCode?: number | null;
+              timedOut?: boolean;
+            };
+            end = { outcome: "error", exitCode: error.exitCode ?? null, error: error.error ?? null, timedOut: !!error.timedOut };
+          } catch {
+            end = { outcome: "error", exitCode: null, error: null, timedOut: false };
+          }
+          continue;
+        }
+        if (!event.startsWith('event: result\n')) continue;
+        const data = event.slice(event.indexOf('\ndata: ') + 7);
+        try {
+          const result = JSON.parse(data) as RunMetadata & { response?: string };
+          metadata = result;
+          response = result.response ?? null;
+        } catch {
+          log.warn("Could not parse result event");
+        }
+      }
+    },
+    flush() {
+      // The CLI only exits 0 after a successful result
+      complete(end ?? {
+        outcome: metadata && !metadata.isError ? "success" : "error",
+        exitCode: metadata ? 0 : null,
+        error: null,
+        timedOut: false
+      });
+    }
+  }));
+
+  // flush never runs for a stream that is cancelled or fails part way, so both are reported here
+  const reader = watched.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        complete({ outcome: "error", exitCode: null, error: error instanceof Error ? error.message : String(error), timedOut: false });
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      const running = !completed;
+      complete({ outcome: "cancelled", exitCode: null, error: null, timedOut: false });
+      if (running) onCancel?.();
+      await reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Where a /query request was handled
+ */
+type TriageRoute = "rule" | "cache" | "direct" | "container";
+
+/**
+ * What the triage pipeline sees of a /query request
+ */
+interface TriageRequest {
+  accountId: string;
+  prompt: string;
+  skill: string | null;
+  options: RunOptions;
+  body: any;
+  // The request's `cache` option; direct answers are only cached for requests that opt in
+  cache: ResponseCacheOptions | null;
+  // Where a container answer to this exact run would be cached, if the run is cacheable
+  responseCacheKey: Request | null;
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+type TriageDecision =
+  | { action: "answer"; route: TriageRoute; response: string; authMode: string; metadata: RunMetadata; detail?: string }
+  | { action: "reject"; route: TriageRoute; status: 400 | 403 | 422; message: string; detail?: string }
+  | { action: "escalate"; route: TriageRoute; detail?: string };
+
+/**
+ * A triage stage returns a decision, or null to hand the request to the next stage
+ */
+type TriageStage = (request: TriageRequest, env: Bindings) => Promise<TriageDecision | null>;
+
+/**
+ * Rule from TRIAGE_RULES, matched against the prompt in order
+ */
+interface TriageRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  action: "answer" | "reject" | "escalate";
+  response?: string;
+  message?: string;
+  status?: 400 | 403 | 422;
+}
+
+const DEFAULT_TRIAGE_DIRECT_MAX_CHARS = 500;
+const DEFAULT_TRIAGE_CACHE_TTL = 3600;
+const DIRECT_ESCALATE_MARKER = "ESCALATE";
+const DIRECT_SYSTEM_PROMPT = `You are the first line of an agent service. Answer the user's message directly only if it can be fully answered from general knowledge in a few paragraphs, without reading files, running code, browsing or using any tools. Otherwise reply with exactly ${DIRECT_ESCALATE_MARKER} and nothing else.`;
+
+// USD per million input/output tokens, for budget accounting of direct answers
+const DIRECT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+};
+
+/**
+ * Metadata for answers that never reached the container
+ */
+function triageMetadata(durationMs: number, usage?: { inputTokens: number; outputTokens: number }, costUsd = 0): RunMetadata {
+  return {
+    sessionId: null,
+    numTurns: usage ? 1 : 0,
+    durationMs,
+    durationApiMs: usage ? durationMs : 0,
+    usage: {
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+    costUsd,
+    stopReason: null,
+    isError: false,
+  };
+}
+
+function parseTriageRules(env: Bindings): TriageRule[] {
+  if (!env.TRIAGE_RULES) {
+    return [];
+  }
+  try {
+    const rules = JSON.parse(env.TRIAGE_RULES);
+    return Array.isArray(rules) ? rules : [];
+  } catch (error: any) {
+    log.error("Ignoring invalid TRIAGE_RULES", { error: error.message });
+    return [];
+  }
+}
+
+/**
+ * First rule with one of the given actions whose pattern matches the prompt
+ */
+function matchTriageRule(prompt: string, env: Bindings, actions: TriageRule["action"][]): TriageRule | null {
+  for (const rule of parseTriageRules(env)) {
+    if (!actions.includes(rule.action)) continue;
+    try {
+      if (new RegExp(rule.pattern, rule.flags).test(prompt)) {
+        return rule;
+      }
+    } catch {
+      log.error("Invalid triage rule pattern", { rule: rule.name });
+    }
+  }
+  return null;
+}
+
+function ruleDecision(rule: TriageRule): TriageDecision {
+  switch (rule.action) {
+    case "answer":
+      return { action: "answer", route: "rule", response: rule.response || "", authMode: "none", metadata: triageMetadata(0), detail: rule.name };
+    case "reject":
+      return { action: "reject", route: "rule", status: rule.status || 422, message: rule.message || "Request rejected", detail: rule.name };
+    case "escalate":
+      return { action: "escalate", route: "container", detail: rule.name };
+  }
+}
+
+/**
+ * Regex rules: canned answers, rejections, or forced escalation
+ */
+const triageByRules: TriageStage = async (request, env) => {
+  const rule = matchTriageRule(request.prompt, env, ["answer", "reject", "escalate"]);
+  return rule ? ruleDecision(rule) : null;
+};
+
+/**
+ * Only the reject and escalate rules: operator policy, which "triage": false does not switch off
+ */
+const triageByPolicyRules: TriageStage = async (request, env) => {
+  const rule = matchTriageRule(request.prompt, env, ["reject", "escalate"]);
+  return rule ? ruleDecision(rule) : null;
+};
+
+/**
+ * Reject rules for routes that always run in the container (session turns and jobs)
+ * Returns the rejection response, or null to go ahead
+ */
+function rejectByTriageRules(c: Context<AppEnv>, accountId: string, prompt: string): Response | null {
+  const rule = matchTriageRule(prompt, c.env, ["reject"]);
+  if (!rule) {
+    return null;
+  }
+  log.info("Triage decision", { accountId, action: "reject", route: "rule", detail: rule.name });
+  c.header('X-Triage-Route', "rule");
+  return c.json({ error: 'Request rejected', message: rule.message || "Request rejected", route: "rule" }, rule.status || 422);
+}
+
+/**
+ * Earlier container answers to the same run, checked before a direct call is paid for
+ */
+const triageFromResponseCache: TriageStage = async (request) => {
+  if (!request.cache || request.cache.bypass || !request.responseCacheKey) return null;
+  const cached = await readCachedResponse(request.responseCacheKey);
+  if (!cached) return null;
+  return {
+    action: "answer",
+    route: "cache",
+    response: cached.response,
+    authMode: cached.authMode,
+    metadata: triageMetadata(0),
+    detail: `response cached at ${cached.cachedAt}`
+  };
+};
+
+/**
+ * Cache API key for a direct answer to this prompt
+ */
+async function triageCacheKey(request: TriageRequest, model: string): Promise<Request> {
+  const hash = await sha256Hex(`${model}\n${request.prompt}`);
+  return new Request(`https://triage.internal/${encodeURIComponent(request.accountId)}/${hash}`);
+}
+
+/**
+ * Only plain prompts are candidates for direct answers: no skill, agents, model, prompt, framework or tool settings
+ */
+function isDirectCandidate(request: TriageRequest, env: Bindings): string | null {
+  const model = env.TRIAGE_DIRECT_MODEL;
+  if (!model || !env.ANTHROPIC_API_KEY) return null;
+  const { options, body } = request;
+  if (request.skill || options.agents || options.systemPrompt || options.appendSystemPrompt || options.model) return null;
+  if (options.allowedTools || options.disallowedTools || options.permissionMode || options.maxTurns) return null;
+  if (options.mcpServers || options.callbacks || options.approvals || body.agent || body.attachments?.length) return null;
+  if (body.framework !== undefined || body.frameworkMaxTokens !== undefined) return null;
+  const maxChars = parseInt(env.TRIAGE_DIRECT_MAX_CHARS || "") || DEFAULT_TRIAGE_DIRECT_MAX_CHARS;
+  return request.prompt.length <= maxChars ? model : null;
+}
+
+/**
+ * Previously cached direct answers
+ */
+const triageFromCache: TriageStage = async (request, env) => {
+  if (!request.cache || request.cache.bypass) return null;
+  const model = isDirectCandidate(request, env);
+  if (!model) return null;
+
+  const cache = await caches.open("triage");
+  const cached = await cache.match(await triageCacheKey(request, model));
+  if (!cached) return null;
+
+  const { response } = await cached.json() as { response: string };
+  return { action: "answer", route: "cache", response, authMode: "none", metadata: triageMetadata(0) };
+};
+
+/**
+ * One cheap Messages API call that either answers or asks for escalation
+ */
+const triageDirect: TriageStage = async (request, env) => {
+  const model = isDirectCandidate(request, env);
+  if (!model) return null;
+
+  const started = Date.now();
+  const res = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": env.ANTHROPIC_API_KEY!,
+      "anthropic-version": "2023-06-01",
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: 1024,
+      system: DIRECT_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: request.prompt }],
+    }),
+  });
+
+  if (!res.ok) {
+    log.error("Direct triage call failed, escalating", { status: res.status });
+    return null;
+  }
+
+  const message = await res.json() as {
+    content: Array<{ type: string; text?: string }>;
+    usage: { input_tokens: number; output_tokens: number };
+  };
+  const text = message.content.filter(b => b.type === "text").map(b => b.text).join("").trim();
+  if (!text || text === DIRECT_ESCALATE_MARKER) {
+    return null;
+  }
+
+  const pricing = DIRECT_MODEL_PRICING[model];
+  const costUsd = pricing
+    ? (message.usage.input_tokens * pricing.input + message.usage.output_tokens * pricing.output) / 1_000_000
+    : 0;
+  const metadata = triageMetadata(Date.now() - started, {
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+  }, costUsd);
+
+  if (request.cache) {
+    const ttl = parseInt(env.TRIAGE_CACHE_TTL || "") || DEFAULT_TRIAGE_CACHE_TTL;
+    const cacheKey = await triageCacheKey(request, model);
+    const cache = await caches.open("triage");
+    request.waitUntil(cache.put(cacheKey, new Response(JSON.stringify({ response: text }), {
+      headers: { "content-type": "application/json", "cache-control": `max-age=${ttl}` }
+    })));
+  }
+
+  return { action: "answer", route: "direct", response: text, authMode: "api_key", metadata, detail: model };
+};
+
+/**
+ * Stages run in order until one decides; falling through escalates to the container
+ */
+const TRIAGE_STAGES: TriageStage[] = [triageByRules, triageFromResponseCache, triageFromCache, triageDirect];
+
+async function runTriage(request: TriageRequest, env: Bindings, stages = TRIAGE_STAGES): Promise<TriageDecision> {
+  for (const stage of stages) {
+    try {
+      const decision = await stage(request, env);
+      if (decision) {
+        return decision;
+      }
+    } catch (error: any) {
+      log.error("Triage stage failed, continuing", { error: error.message });
+    }
+  }
+  return { action: "escalate", route: "container" };
+}
+
+/**
+ * SSE body for an answer that did not come from the container, shaped like its delta and result events
+ */
+function answerEventStream(response: string, metadata: RunMetadata): string {
+  return `event: delta\ndata: ${JSON.stringify({ text: response })}\n\n` +
+    `event: result\ndata: ${JSON.stringify({ success: true, response, ...metadata })}\n\n`;
+}
+
+/**
+ * Per-request response cache settings; ttl in seconds
+ */
+interface ResponseCacheOptions {
+  ttl: number;
+  bypass: boolean;
+}
+
+/**
+ * Cached container answer
+ */
+interface CachedResponse {
+  response: string;
+  authMode: string;
+  cachedAt: string;
+}
+
+const DEFAULT_RESPONSE_CACHE_TTL = 300;
+const DEFAULT_RESPONSE_CACHE_MAX_TTL = 86400;
+
+/**
+ * Parse the `cache` request option
+ * Caching is opt-in per request, or on by default when RESPONSE_CACHE_TTL is set
+ */
+function parseCacheOptions(body: any, env: Bindings): { cache: ResponseCacheOptions | null } | { error: string } {
+  const defaultTtl = parseInt(env.RESPONSE_CACHE_TTL || "") || null;
+  const maxTtl = parseInt(env.RESPONSE_CACHE_MAX_TTL || "") || DEFAULT_RESPONSE_CACHE_MAX_TTL;
+
+  if (body.cache === undefined) {
+    return { cache: defaultTtl ? { ttl: Math.min(defaultTtl, maxTtl), bypass: false } : null };
+  }
+  if (body.cache === false) {
+    return { cache: null };
+  }
+  if (body.cache === true) {
+    return { cache: { ttl: Math.min(defaultTtl || DEFAULT_RESPONSE_CACHE_TTL, maxTtl), bypass: false } };
+  }
+  if (typeof body.cache !== "object" || body.cache === null) {
+    return { error: "cache must be a boolean or { ttl, bypass }" };
+  }
+
+  const { ttl, bypass } = body.cache;
+  if (ttl !== undefined && !(Number.isInteger(ttl) && ttl > 0 && ttl <= maxTtl)) {
+    return { error: `cache.ttl must be an integer between 1 and ${maxTtl}` };
+  }
+  if (bypass !== undefined && typeof bypass !== "boolean") {
+    return { error: "cache.bypass must be a boolean" };
+  }
+  return { cache: { ttl: ttl ?? Math.min(defaultTtl || DEFAULT_RESPONSE_CACHE_TTL, maxTtl), bypass: !!bypass } };
+}
+
+/**
+ * Versions of the skills, agents and framework indexes, and of the bundled framework context
+ * Part of every cache key, so re-syncing any catalog invalidates cached answers
+ */
+async function catalogVersions(env: Bindings): Promise<string[]> {
+  const keys = ['index.json', 'agents/index.json', 'framework/index.json'];
+  const heads = await Promise.all(keys.map(key => env.SKILLS_BUCKET?.head(key) ?? Promise.resolve(null)));
+  // The bundled framework changes with a deploy rather than in R2
+  return [...heads.map(head => head?.etag ?? ''), await sha256Hex(BUNDLED_FRAMEWORK)];
+}
+
+/**
+ * Cache API key for a container run
+ */
+async function responseCacheKey(
+  env: Bindings,
+  run: { accountId: string; prompt: string; skill: string | null; options: RunOptions; frameworkContext: string | undefined }
+): Promise<Request> {
+  const hash = await sha256Hex(JSON.stringify({
+    accountId: run.accountId,
+    prompt: run.prompt,
+    skill: run.skill,
+    model: run.options.model || env.MODEL || null,
+    options: run.options,
+    framework: run.frameworkContext === undefined ? "bundled" : await sha256Hex(run.frameworkContext),
+    versions: await catalogVersions(env),
+  }));
+  return new Request(`https://responses.internal/${hash}`);
+}
+
+async function readCachedResponse(key: Request): Promise<CachedResponse | null> {
+  const cache = await caches.open("responses");
+  const cached = await cache.match(key);
+  return cached ? await cached.json() as CachedResponse : null;
+}
+
+async function writeCachedResponse(key: Request, entry: Omit<CachedResponse, "cachedAt">, ttl: number): Promise<void> {
+  const cache = await caches.open("responses");
+  await cache.put(key, new Response(JSON.stringify({ ...entry, cachedAt: new Date().toISOString() }), {
+    headers: { "content-type": "application/json", "cache-control": `max-age=${ttl}` }
+  }));
+}
+
+const DEFAULT_WORKSPACE_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+function workspaceKey(accountId: string, filePath: string): string {
+  return `workspaces/${accountId}/${filePath}`;
+}
+
+/**
+ * Workspace paths are relative, without . or .. segments, and outside .claude / .attachments
+ */
+function isValidWorkspacePath(filePath: string): boolean {
+  const segments = filePath.split('/');
+  return filePath.length <= 512
+    && !/[\0\\]/.test(filePath)
+    && segments[0] !== '.claude' && segments[0] !== '.attachments'
+    && segments.every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * All files stored for an account's workspace, keyed by workspace path
+ */
+async function listWorkspaceObjects(bucket: R2Bucket, accountId: string): Promise<Map<string, WorkspaceFileInfo>> {
+  const prefix = workspaceKey(accountId, '');
+  const files = new Map<string, WorkspaceFileInfo>();
+  let cursor: string | undefined;
+
+  do {
+    // customMetadata is only listed when asked for; the bundled types don't know `include` yet
+    const page = await bucket.list({ prefix, cursor, include: ['customMetadata'] } as R2ListOptions);
+    for (const object of page.objects) {
+      files.set(object.key.slice(prefix.length), { size: object.size, sha256: object.customMetadata?.sha256 || '' });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return files;
+}
+
+/**
+ * Snapshot the workspace once the response no longer needs the container
+ */
+function snapshotWorkspace(c: Context<AppEnv>, accountId: string) {
+  if (!c.env.WORKSPACE_BUCKET) {
+    return;
+  }
+  c.executionCtx.waitUntil(
+    getAgentContainer(c.env, accountId).snapshotWorkspace(accountId).catch((error: any) => {
+      log.error("Workspace snapshot failed", { accountId, error: error.message });
+    })
+  );
+}
+
+/**
+ * A file uploaded with a /query request
+ */
+interface Attachment {
+  name: string;
+  contentType: string;
+  content: Blob;
+}
+
+const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ATTACHMENT_MAX_TOTAL_BYTES = 25 * 1024 * 1024;
+const DEFAULT_ATTACHMENT_MAX_COUNT = 10;
+const DEFAULT_ATTACHMENT_TYPES = [
+  "text/*", "application/json", "application/pdf",
+  "application/zip", "application/gzip", "application/x-gzip", "application/x-tar",
+  "image/png", "image/jpeg", "image/gif", "image/webp",
+  "application/vnd.openxmlformats-officedocument.*",
+];
+const ATTACHMENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+// Content types for attachments sent without one
+const ATTACHMENT_EXTENSION_TYPES: Record<string, string> = {
+  txt: "text/plain", md: "text/markdown", csv: "text/csv", json: "application/json", pdf: "application/pdf",
+  zip: "application/zip", gz: "application/gzip", tgz: "application/gzip", tar: "application/x-tar",
+  png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif", webp: "image/webp",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+function attachmentType(name: string, declared?: string): string {
+  const type = declared?.split(';')[0].trim().toLowerCase();
+  if (type && type !== "application/octet-stream") {
+    return type;
+  }
+  return ATTACHMENT_EXTENSION_TYPES[name.split('.').pop()?.toLowerCase() || ""] || "application/octet-stream";
+}
+
+/**
+ * Check attachments against the count, size, name and type limits
+ */
+function validateAttachments(attachments: Attachment[], env: Bindings): { error: string; status: 400 | 413 } | null {
+  const maxCount = parseInt(env.ATTACHMENT_MAX_COUNT || "") || DEFAULT_ATTACHMENT_MAX_COUNT;
+  const maxBytes = parseInt(env.ATTACHMENT_MAX_BYTES || "") || DEFAULT_ATTACHMENT_MAX_BYTES;
+  const maxTotalBytes = parseInt(env.ATTACHMENT_MAX_TOTAL_BYTES || "") || DEFAULT_ATTACHMENT_MAX_TOTAL_BYTES;
+  const allowedTypes = parseList(env.ATTACHMENT_TYPES, DEFAULT_ATTACHMENT_TYPES);
+
+  if (attachments.length > maxCount) {
+    return { error: `At most ${maxCount} attachments are allowed`, status: 400 };
+  }
+
+  const names = new Set<string>();
+  let total = 0;
+  for (const attachment of attachments) {
+    if (!ATTACHMENT_NAME_PATTERN.test(attachment.name)) {
+      return { error: `Invalid attachment name '${attachment.name}' (letters, digits, '.', '_' and '-' only)`, status: 400 };
+    }
+    if (names.has(attachment.name)) {
+      return { error: `Duplicate attachment name '${attachment.name}'`, status: 400 };
+    }
+    names.add(attachment.name);
+
+    const allowed = allowedTypes.some(pattern => pattern.endsWith('*')
+      ? attachment.contentType.startsWith(pattern.slice(0, -1))
+      : attachment.contentType === pattern);
+    if (!allowed) {
+      return { error: `Attachment type '${attachment.contentType}' is not allowed`, status: 400 };
+    }
+
+    if (attachment.content.size > maxBytes) {
+      return { error: `Attachment '${attachment.name}' exceeds the ${maxBytes} byte limit`, status: 413 };
+    }
+    total += attachment.content.size;
+  }
+
+  if (total > maxTotalBytes) {
+    return { error: `Attachments exceed the ${maxTotalBytes} byte total limit`, status: 413 };
+  }
+  return null;
+}
+
+/**
+ * Read a /query body from JSON (base64 `attachments`) or multipart/form-data
+ * In multipart requests, text fields become body fields (`payload` may hold a JSON body) and file parts are attachments
+ */
+async function readQueryRequest(
+  c: Context<AppEnv>
+): Promise<{ body: any; attachments: Attachment[] } | { error: string; status: 400 | 413 }> {
+  const attachments: Attachment[] = [];
+  let body: any;
+
+  if ((c.req.header('content-type') || '').startsWith('multipart/form-data')) {
+    body = {};
+    const form = await c.req.formData();
+    for (const [key, value] of form.entries()) {
+      if (typeof value !== "string") {
+        attachments.push({ name: value.name, contentType: attachmentType(value.name, value.type), content: value });
+      } else if (key === "payload") {
+        try {
+          Object.assign(body, JSON.parse(value));
+        } catch {
+          return { error: "payload must be a JSON object", status: 400 };
+        }
+      } else {
+        body[key] = value;
+      }
+    }
+  } else {
+    body = await c.req.json().catch(() => ({}));
+    if (body.attachments !== undefined) {
+      if (!Array.isArray(body.attachments)) {
+        return { error: "attachments must be an array of { name, contentType, data }", status: 400 };
+      }
+      for (const attachment of body.attachments) {
+        if (typeof attachment?.name !== "string" || typeof attachment?.data !== "string") {
+          return { error: "Each attachment needs a name and base64 data", status: 400 };
+        }
+        let bytes: Uint8Array<ArrayBuffer>;
+        try {
+          bytes = Uint8Array.from(atob(attachment.data), ch => ch.charCodeAt(0));
+        } catch {
+          return { error: `Attachment '${attachment.name}' is not valid base64`, status: 400 };
+        }
+        attachments.push({
+          name: attachment.name,
+          contentType: attachmentType(attachment.name, attachment.contentType),
+          content: new Blob([bytes])
+        });
+      }
+    }
+  }
+
+  const invalid = validateAttachments(attachments, c.env);
+  if (invalid) {
+    return invalid;
+  }
+
+  // Replaced with the parsed list so later stages can tell a request has files
+  body.attachments = attachments;
+  return { body, attachments };
+}
+
+/**
+ * Prompt preamble pointing the agent at the uploaded files
+ */
+function describeAttachments(uploadId: string, attachments: Attachment[]): string {
+  const lines = attachments.map(a => `- \`.attachments/${uploadId}/${a.name}\` (${a.contentType}, ${a.content.size} bytes)`);
+  return `# Attached files\n\nThe user attached these files, relative to the working directory:\n${lines.join('\n')}\n\n---\n\n`;
+}
+
+/**
+ * Stream attachments into the container's working directory
+ */
+async function uploadAttachments(instance: ReturnType<typeof getAgentContainer>, uploadId: string, attachments: Attachment[]) {
+  for (const attachment of attachments) {
+    const res = await instance.fetch(
+      new Request(`http://container.internal/attachments/${uploadId}/${encodeURIComponent(attachment.name)}`, {
+        method: "PUT",
+        body: attachment.content.stream()
+      })
+    );
+    if (!res.ok) {
+      throw new Error(`Failed to upload attachment '${attachment.name}': container returned ${res.status}`);
+    }
+  }
+}
+
+/**
+ * Remove a request's attachments from the container once the run is over
+ */
+function removeAttachments(c: Context<AppEnv>, accountId: string, uploadId: string) {
+  c.executionCtx.waitUntil(
+    getAgentContainer(c.env, accountId).fetch(new Request(`http://container.internal/attachments/${uploadId}`, { method: "DELETE" }))
+      .catch((error: any) => {
+        log.error("Attachment cleanup failed", { uploadId, error: error.message });
+      })
+  );
+}
+
+/**
+ * Whether an IPv4 address is loopback, link-local, private, shared (CGNAT), benchmarking, multicast or reserved
+ */
+function isInternalIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+/**
+ * Whether a URL hostname names this machine or an internal network
+ * URL parsing already normalizes IPv4 shorthands like 2130706433 or 0x7f.1 to dotted form
+ */
+function isInternalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+    return true;
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return isInternalIPv4(host);
+  }
+  if (!host.includes(':')) {
+    return false;
+  }
+
+  // IPv4-mapped addresses, which URL parsing rewrites to hex (::ffff:7f00:1)
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [hi, lo] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isInternalIPv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('ff');
+}
+
+/**
+ * Webhooks must be absolute http(s) URLs on a public host
+ * Internal hosts are refused so callers cannot point the Worker or container at private services
+ */
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === "https:" || parsed.protocol === "http:") && !isInternalHost(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Environment passed to the container on start
+ */
+function containerEnvVars(env: Bindings, oauth: OAuthCredentials | null, authToken: string): Record<string, string> {
+  return {
+    // OAuth access token for Max subscription (only if valid)
+    // The refresh token stays in the CredentialStore: it is single use, and a CLI refresh would invalidate the store's copy
+    CLAUDE_ACCESS_TOKEN: oauth?.accessToken || "",
+    CLAUDE_EXPIRES_AT: oauth ? String(oauth.expiresAt) : "",
+    // Fallback API key
+    ANTHROPIC_API_KEY: env.ANTHROPIC_API_KEY || "",
+    // Model and subscription flags (only enable if OAuth is valid)
+    MODEL: env.MODEL || "claude-sonnet-4-5",
+    CLAUDE_USE_SUBSCRIPTION: oauth ? "true" : "false",
+    CLAUDE_BYPASS_BALANCE_CHECK: "true",
+    LOG_LEVEL: env.LOG_LEVEL || "info",
+    // Per-instance token the container requires on every request
+    CONTAINER_AUTH_TOKEN: authToken,
+  };
+}
+
+/**
+ * Validate the body of POST /admin/keys
+ */
+function parseKeyInput(body: any): { input: Parameters<KeyRegistry["createKey"]>[0] } | { error: string } {
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    return { error: "name is required" };
+  }
+
+  const scopes = body.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(s => API_KEY_SCOPES.includes(s))) {
+    return { error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` };
+  }
+
+  for (const field of ["accountIds", "skills"] as const) {
+    const value = body[field];
+    if (value != null && (!Array.isArray(value) || !value.every(v => typeof v === "string"))) {
+      return { error: `${field} must be an array of strings or null` };
+    }
+  }
+  if (body.accountIds && !body.accountIds.every(isValidAccountId)) {
+    return { error: "accountIds must only contain valid account ids (letters, digits, _ and -, up to 64 characters)" };
+  }
+
+  let expiresAt: number | null = null;
+  if (body.expiresAt != null) {
+    const ms: number = typeof body.expiresAt === "number" ? body.expiresAt : new Date(body.expiresAt).getTime();
+    if (isNaN(ms) || ms <= Date.now()) {
+      return { error: "expiresAt must be a future ISO timestamp or epoch milliseconds" };
+    }
+    expiresAt = ms;
+  }
+
+  return {
+    input: {
+      name: body.name.trim(),
+      scopes,
+      accountIds: body.accountIds ?? null,
+      skills: body.skills ?? null,
+      expiresAt
+    }
+  };
+}
+
+function getKeyRegistry(env: Bindings) {
+  return env.KEY_REGISTRY!.get(env.KEY_REGISTRY!.idFromName("global"));
+}
+
+function getCredentialStore(env: Bindings) {
+  return env.CREDENTIAL_STORE!.get(env.CREDENTIAL_STORE!.idFromName("global"));
+}
+
+function getMetricsStore(env: Bindings) {
+  return env.METRICS_STORE!.get(env.METRICS_STORE!.idFromName("global"));
+}
+
+/**
+ * Get the AgentContainer for an account without starting its container
+ */
+function getAgentContainer(env: Bindings, accountId: string) {
+  const id = env.AGENT_CONTAINER.idFromName(accountId);
+  return env.AGENT_CONTAINER.get(id);
+}
+
+/**
+ * Get the AgentContainer for an account, wait for its container to accept requests
+ * and restore the account's workspace into it
+ * Also returns whether that was a cold start and how long it took, for metrics
+ */
+async function startAgentContainer(env: Bindings, accountId: string, oauth: OAuthCredentials | null) {
+  const startedAt = Date.now();
+  const instance = getAgentContainer(env, accountId);
+  const coldStart = await instance.ensureStarted(oauth);
+  if (env.WORKSPACE_BUCKET) {
+    await instance.restoreWorkspace(accountId);
+  }
+  return { instance, coldStart, startMs: Date.now() - startedAt };
+}
+
+const app = new Hono<AppEnv>();
+
+// Every request gets a request id and a W3C trace context (continuing the caller's traceparent),
+// which is attached to its log lines, forwarded to the container and echoed in the response
+app.use("*", async (c, next) => {
+  setLogLevel(c.env?.LOG_LEVEL);
+  const trace = startTrace(c.req.header("traceparent"), c.req.header("x-request-id"));
+  c.set("trace", trace);
+
+  await withLogContext(traceFields(trace), next);
+
+  c.header("X-Request-Id", trace.requestId);
+  c.header("traceparent", traceHeaders(trace).traceparent);
+});
+
+// Routes addressing an account by path
+for (const path of ["/workspaces/:accountId/*", "/admin/accounts/:accountId/*"]) {
+  app.use(path, async (c, next) => {
+    if (!isValidAccountId(c.req.param("accountId"))) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+    await next();
+  });
+}
+
+app.get("/health", async (c) => {
+  // Health check endpoint does not require API key authentication
+  const { hasOAuth: isOAuthValid, hasApiKey, oauthExpiresAt } = await peekAuthState(c.env);
+  const hasWorkerAuth = !!(c.env?.WORKER_API_KEY);
+
+  // Check skills availability
+  let skillsAvailable = false;
+  let skillCount = 0;
+  try {
+    const index = await c.env?.SKILLS_BUCKET?.get('index.json');
+    if (index) {
+      const data = await index.json() as { count?: number };
+      skillsAvailable = true;
+      skillCount = data.count || 0;
+    }
+  } catch (e) {
+    // R2 not available or empty
+  }
+
+  // Check agents availability
+  let agentsAvailable = false;
+  let agentCount = 0;
+  try {
+    const index = await c.env?.SKILLS_BUCKET?.get('agents/index.json');
+    if (index) {
+      const data = await index.json() as { count?: number };
+      agentsAvailable = true;
+      agentCount = data.count || 0;
+    }
+  } catch (e) {
+    // Agents not synced yet
+  }
+
+  // Check framework availability
+  let frameworkAvailable = false;
+  let frameworkCount = 0;
+  try {
+    const index = await c.env?.SKILLS_BUCKET?.get('framework/index.json');
+    if (index) {
+      const data = await index.json() as { count?: number };
+      frameworkAvailable = true;
+      frameworkCount = data.count || 0;
+    }
+  } catch (e) {
+    // Framework not synced yet
+  }
+
+  return c.json({
+    status: "healthy",
+    authMode: isOAuthValid ? "subscription" : (hasApiKey ? "api_key" : "none"),
+    oauthExpired: !isOAuthValid && !!(c.env?.CLAUDE_ACCESS_TOKEN),
+    oauthExpiresAt: oauthExpiresAt ? new Date(oauthExpiresAt).toISOString() : null,
+    hasContainer: !!c.env?.AGENT_CONTAINER,
+    hasWorkerAuth,
+    skillsAvailable,
+    skillCount,
+    agentsAvailable,
+    agentCount,
+    frameworkAvailable,
+    frameworkCount,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.get("/skills", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    const index = await c.env.SKILLS_BUCKET.get('index.json');
+    if (!index) {
+      return c.json({ error: 'Skills index not found' }, 404);
+    }
+
+    const data = await index.json() as { skills?: Array<{ name: string }>; count?: number };
+
+    // Keys restricted to certain skills only see those
+    if (auth.key.skills && data.skills) {
+      data.skills = data.skills.filter(s => isSkillAllowed(auth.key, s.name));
+      data.count = data.skills.length;
+    }
+
+    return c.json(data);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch skills', message: error.message }, 500);
+  }
+});
+
+app.get("/skills/:name", async (c) => {
+  const skillName = c.req.param('name');
+  // Accept either /skills/name@version or /skills/name?version=...
+  const version = c.req.query('version');
+  const skillRef = version ? `${parseSkillRef(skillName).name}@${version}` : skillName;
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!isSkillAllowed(auth.key, skillName)) {
+      return authErrorResponse(403, `API key is not permitted to use skill '${skillName}'`);
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    // First check index for the skill path
+    const index = await c.env.SKILLS_BUCKET.get('index.json');
+    if (!index) {
+      return c.json({ error: 'Skills index not found' }, 404);
+    }
+
+    const indexData = await index.json() as { skills: SkillIndexEntry[] };
+    const resolved = resolveSkill(indexData.skills, skillRef);
+
+    if (!resolved) {
+      return c.json({ error: `Skill '${skillRef}' not found` }, 404);
+    }
+
+    // Fetch the skill content
+    const content = await c.env.SKILLS_BUCKET.get(resolved.path);
+    if (!content) {
+      return c.json({ error: 'Skill file not found' }, 404);
+    }
+
+    const text = await content.text();
+    const skill = resolved.entry;
+    return c.json({
+      name: skill.name,
+      description: skill.description,
+      category: skill.category,
+      version: resolved.version,
+      latestVersion: skill.version ?? null,
+      versions: (skill.versions || []).map(v => ({ version: v.version, hash: v.hash, createdAt: v.createdAt })),
+      content: text
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch skill', message: error.message }, 500);
+  }
+});
+
+app.get("/agents", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    const index = await c.env.SKILLS_BUCKET.get('agents/index.json');
+    if (!index) {
+      return c.json({ error: 'Agents index not found' }, 404);
+    }
+
+    const data = await index.json();
+    return c.json(data);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch agents', message: error.message }, 500);
+  }
+});
+
+app.get("/agents/:category/:name", async (c) => {
+  const category = c.req.param('category');
+  const agentName = c.req.param('name');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    // First check index for the agent path
+    const index = await c.env.SKILLS_BUCKET.get('agents/index.json');
+    if (!index) {
+      return c.json({ error: 'Agents index not found' }, 404);
+    }
+
+    const indexData = await index.json() as { agents: AgentIndexEntry[] };
+
+    // Try both with .md extension and without
+    const agent = indexData.agents.find(a =>
+      a.category === category && (a.name === agentName || a.name === `${agentName}.md`)
+    );
+
+    if (!agent) {
+      return c.json({ error: `Agent '${agentName}' not found in category '${category}'` }, 404);
+    }
+
+    // Fetch the agent content
+    const content = await c.env.SKILLS_BUCKET.get(`agents/${agent.path}`);
+    if (!content) {
+      return c.json({ error: 'Agent file not found' }, 404);
+    }
+
+    const text = await content.text();
+    return c.json({
+      name: agent.name,
+      description: agent.description,
+      category: agent.category,
+      tier: agent.tier,
+      content: text
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch agent', message: error.message }, 500);
+  }
+});
+
+app.get("/framework", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    const index = await c.env.SKILLS_BUCKET.get('framework/index.json');
+    if (!index) {
+      return c.json({ error: 'Framework index not found' }, 404);
+    }
+
+    const data = await index.json();
+    return c.json(data);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch framework', message: error.message }, 500);
+  }
+});
+
+app.get("/framework/:name", async (c) => {
+  const fileName = c.req.param('name');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.SKILLS_BUCKET) {
+      return c.json({ error: 'Skills bucket not configured' }, 500);
+    }
+
+    // First check index for the framework file
+    const index = await c.env.SKILLS_BUCKET.get('framework/index.json');
+    if (!index) {
+      return c.json({ error: 'Framework index not found' }, 404);
+    }
+
+    const indexData = await index.json() as {
+      files: Array<{
+        name: string;
+        path: string;
+        description: string;
+        category: string;
+      }>
+    };
+
+    const file = indexData.files.find(f => f.name === fileName);
+
+    if (!file) {
+      return c.json({ error: `Framework file '${fileName}' not found` }, 404);
+    }
+
+    // Fetch the framework file content
+    const content = await c.env.SKILLS_BUCKET.get(`framework/${file.path}`);
+    if (!content) {
+      return c.json({ error: 'Framework file not found' }, 404);
+    }
+
+    const text = await content.text();
+    return c.json({
+      name: file.name,
+      description: file.description,
+      category: file.category,
+      content: text
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch framework file', message: error.message }, 500);
+  }
+});
+
+app.get("/mcp/servers", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'read-catalog');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    // Definitions may embed internal commands and URLs, so only names and required secrets are listed
+    const servers = Object.entries(parseMcpCatalog(c.env)).map(([name, config]) => ({
+      name,
+      type: config.type,
+      secrets: [...new Set(mcpSecretNames(config))]
+    }));
+    return c.json({ servers });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch MCP servers', message: error.message }, 500);
+  }
+});
+
+app.post("/query", async (c) => {
+  const receivedAt = Date.now();
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { hasOAuth, hasApiKey, oauth } = await resolveAuth(c.env);
+
+    if (!hasOAuth && !hasApiKey) {
+      return c.json({ error: NO_AUTH_MESSAGE }, 500);
+    }
+
+    const request = await readQueryRequest(c);
+    if ('error' in request) {
+      return c.json({ error: request.error }, request.status);
+    }
+    const { body, attachments } = request;
+    const prompt = body.query || body.prompt;
+    const skill = body.skill;
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (skill && !isSkillAllowed(auth.key, skill)) {
+      return authErrorResponse(403, `API key is not permitted to use skill '${skill}'`);
+    }
+
+    // Stream via Server-Sent Events when asked in the body or the Accept header
+    const stream = body.stream === true || (c.req.header('accept') || '').includes('text/event-stream');
+    const outputFormat = body.outputFormat || "text";
+
+    if (!prompt) {
+      return c.json({ error: "No prompt provided" }, 400);
+    }
+
+    if (outputFormat !== "text" && outputFormat !== "json") {
+      return c.json({ error: "outputFormat must be 'text' or 'json'" }, 400);
+    }
+
+    const parsedOptions = parseRunOptions(body, c.env);
+    if ('error' in parsedOptions) {
+      return c.json({ error: parsedOptions.error }, 400);
+    }
+
+    // Load agent definitions as subagents / persona if requested
+    const agentError = await applyAgentOptions(c.env, body, parsedOptions.options);
+    if (agentError) {
+      return c.json({ error: agentError.error }, agentError.status);
+    }
+
+    const mcpError = await applyMcpOptions(c.env, accountId, body, parsedOptions.options);
+    if (mcpError) {
+      return c.json({ error: mcpError }, 400);
+    }
+
+    const toolsError = await applyToolCallbacks(c.env, accountId, body, parsedOptions.options);
+    if (toolsError) {
+      return c.json({ error: toolsError }, 400);
+    }
+
+    const approvalsError = applyApprovalOptions(c.env, body, parsedOptions.options);
+    if (approvalsError) {
+      return c.json({ error: approvalsError }, 400);
+    }
+
+    const framework = await resolveFrameworkContext(c.env, accountId, body);
+    if ('error' in framework) {
+      return c.json({ error: framework.error }, 400);
+    }
+
+    const cacheOptions = parseCacheOptions(body, c.env);
+    if ('error' in cacheOptions) {
+      return c.json({ error: cacheOptions.error }, 400);
+    }
+
+    // Load skill context if requested
+    const skillContext = skill ? await loadSkillContext(c.env, skill) : '';
+
+    // Attachments are written under .attachments/<uploadId>/ in the container's working directory
+    const uploadId = attachments.length > 0 ? crypto.randomUUID() : null;
+    const attachmentContext = uploadId ? describeAttachments(uploadId, attachments) : '';
+
+    // Inject skill and attachment context into prompt if available
+    const enrichedPrompt = `${skillContext}${attachmentContext}${prompt}`;
+
+    log.info("Processing query", {
+      accountId,
+      authMode: hasOAuth ? "subscription" : "api_key",
+      skill: skill || null,
+      skillLoaded: skillContext.length > 0
+    });
+
+    // Callers address the run by this id to cancel it or decide its approvals
+    const runId = crypto.randomUUID();
+    const quota = await enforceQuota(c, accountId, { runId, options: parsedOptions.options });
+    if ('response' in quota) {
+      return quota.response;
+    }
+
+    // Every request past the quota check is counted in the metrics and audit log, however it is answered
+    const authMode = hasOAuth ? "subscription" : "api_key";
+    const promptHash = await sha256Hex(prompt);
+    const finish = ({ runId = null, toolCalls = [], error = null, timedOut = false, ...fields }: RequestResult & Pick<RunSample, "route">) => {
+      const sample: RunSample = {
+        accountId,
+        source: "query",
+        authMode,
+        skill: skill || null,
+        model: parsedOptions.options.model || c.env.MODEL || "claude-sonnet-4-5",
+        exitCode: null,
+        coldStart: false,
+        containerStartMs: null,
+        cliMs: null,
+        totalMs: Date.now() - receivedAt,
+        metadata: null,
+        ...fields
+      };
+      recordRun(c, sample);
+      recordAudit(c, accountId, {
+        runId,
+        source: "query",
+        keyId: auth.key.id,
+        keyName: auth.key.name,
+        promptHash,
+        skill: sample.skill,
+        agents: requestedAgents(body),
+        sessionId: null,
+        route: sample.route,
+        toolCalls,
+        outcome: sample.outcome,
+        error,
+        durationMs: sample.totalMs,
+        costUsd: sample.metadata?.costUsd ?? 0
+      });
+      // Only container runs have a lifecycle; triage and cache answers are returned directly
+      if (runId) {
+        emitRunEvent(c, accountId, runEventType(sample.outcome, timedOut), runEventData(sample, runId, null, error));
+      }
+    };
+
+    // Identical runs against unchanged catalogs can reuse an earlier answer
+    // Runs with attachments, caller tools (which may have side effects) or approvals are never cached
+    const { callbacks, approvals } = parsedOptions.options;
+    const cache = attachments.length > 0 || callbacks || approvals ? null : cacheOptions.cache;
+    const cacheKey = cache
+      ? await responseCacheKey(c.env, {
+          accountId,
+          prompt: enrichedPrompt,
+          skill: skill || null,
+          options: parsedOptions.options,
+          frameworkContext: framework.frameworkContext
+        })
+      : null;
+
+    // Answer, reject or escalate before paying for a container start
+    // "triage": false skips the answer stages but not the operator's reject and escalate rules
+    const triage = await runTriage({
+      accountId,
+      prompt,
+      skill: skill || null,
+      options: parsedOptions.options,
+      body,
+      cache,
+      responseCacheKey: cacheKey,
+      waitUntil: (promise) => c.executionCtx.waitUntil(promise)
+    }, c.env, body.triage === false ? [triageByPolicyRules, triageFromResponseCache] : TRIAGE_STAGES);
+
+    log.info("Triage decision", { accountId, action: triage.action, route: triage.route, detail: triage.detail });
+    c.header('X-Triage-Route', triage.route);
+    if (cache && cacheKey) {
+      c.header('X-Cache', triage.action === "answer" && triage.route === "cache" ? 'HIT' : 'MISS');
+    }
+
+    if (triage.action === "reject") {
+      releaseQuota(c, accountId, quota.leaseId, null);
+      finish({ route: triage.route, outcome: "rejected", model: null, error: triage.message });
+      return c.json({ error: 'Request rejected', message: triage.message, route: triage.route }, triage.status);
+    }
+
+    // Reply with an answer that did not need the container
+    const answer = (response: string, authMode: string, route: TriageRoute, metadata: RunMetadata) => {
+      if (stream) {
+        return c.body(answerEventStream(response, metadata), 200, {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache"
+        });
+      }
+      if (outputFormat === "json") {
+        const result: QueryResult = { success: true, response, authMode, route, result: metadata };
+        return c.json(result);
+      }
+      return c.json({ success: true, response, authMode, route });
+    };
+
+    if (triage.action === "answer") {
+      releaseQuota(c, accountId, quota.leaseId, triage.metadata);
+      finish({
+        route: triage.route,
+        outcome: "success",
+        authMode: triage.authMode,
+        model: triage.route === "direct" ? c.env.TRIAGE_DIRECT_MODEL || null : null,
+        metadata: triage.metadata
+      });
+      return answer(triage.response, triage.authMode, triage.route, triage.metadata);
+    }
+
+    // Only successful runs are cached
+    const storeInCache = (response: string | null | undefined, authMode: string, metadata: RunMetadata | null | undefined) => {
+      if (cache && cacheKey && response && metadata && !metadata.isError) {
+        c.executionCtx.waitUntil(
+          writeCachedResponse(cacheKey, { response, authMode }, cache.ttl).catch((error: any) => {
+            log.error("Failed to cache response", { accountId, error: error.message });
+          })
+        );
+      }
+    };
+
+    c.header('X-Run-Id', runId);
+    emitRunEvent(c, accountId, "run.started", { runId, source: "query", sessionId: null, skill: skill || null });
+
+    let data: ContainerRunResponse;
+    let containerRes: Response;
+    let started: Awaited<ReturnType<typeof startAgentContainer>> | null = null;
+    try {
+      started = await startAgentContainer(c.env, accountId, oauth);
+      const { instance, coldStart, startMs } = started;
+      if (uploadId) {
+        await uploadAttachments(instance, uploadId, attachments);
+        log.info("Uploaded attachments", { accountId, uploadId, count: attachments.length });
+      }
+      if (parsedOptions.options.approvals) {
+        await instance.watchApprovals(runId, parsedOptions.options.approvals.webhookUrl);
+      }
+
+      const runStartedAt = Date.now();
+      containerRes = await instance.fetch(
+        new Request("http://container.internal/run", {
+          method: "POST",
+          headers: { "content-type": "application/json", ...traceHeaders(c.get("trace")) },
+          body: JSON.stringify({
+            prompt: enrichedPrompt,
+            stream,
+            runId,
+            options: parsedOptions.options,
+            frameworkContext: framework.frameworkContext
+          })
+        })
+      );
+
+      // SSE responses are passed through unbuffered so tokens reach the client as they arrive
+      // The quota lease is held until the stream finishes
+      if (stream && containerRes.ok && containerRes.body) {
+        const body = watchRunStream(containerRes.body, (metadata, response, end) => {
+          releaseQuota(c, accountId, quota.leaseId, metadata);
+          finish({
+            route: "container",
+            outcome: end.outcome,
+            exitCode: end.exitCode,
+            coldStart,
+            containerStartMs: startMs,
+            cliMs: Date.now() - runStartedAt,
+            metadata,
+            runId,
+            toolCalls: end.toolCalls,
+            error: end.error,
+            timedOut: end.timedOut
+          });
+          storeInCache(response, authMode, metadata);
+          snapshotWorkspace(c, accountId);
+          if (uploadId) removeAttachments(c, accountId, uploadId);
+        }, () => {
+          // Dropping the container response may not reach the container straight away, so interrupt the CLI explicitly
+          log.info("Client cancelled stream", { accountId, runId });
+          c.executionCtx.waitUntil(
+            instance.cancelRun(runId).catch((error: any) => {
+              log.error("Failed to cancel run", { accountId, runId, error: error.message });
+            })
+          );
+        });
+        return c.newResponse(body, containerRes);
+      }
+
+      data = await containerRes.json() as ContainerRunResponse;
+    } catch (error) {
+      releaseQuota(c, accountId, quota.leaseId, null);
+      finish({
+        route: "container",
+        outcome: "error",
+        coldStart: started?.coldStart ?? false,
+        containerStartMs: started?.startMs ?? null,
+        runId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (uploadId && started) removeAttachments(c, accountId, uploadId);
+      throw error;
+    }
+
+    releaseQuota(c, accountId, quota.leaseId, data.metadata ?? null);
+    finish({
+      route: "container",
+      outcome: containerRunOutcome(containerRes, data),
+      exitCode: data.execution?.exitCode ?? null,
+      coldStart: started.coldStart,
+      containerStartMs: started.startMs,
+      cliMs: data.execution?.durationMs ?? null,
+      metadata: data.metadata ?? null,
+      runId,
+      toolCalls: data.toolCalls,
+      error: data.error ?? null,
+      timedOut: data.execution?.timedOut
+    });
+    snapshotWorkspace(c, accountId);
+    if (uploadId) removeAttachments(c, accountId, uploadId);
+
+    if (!containerRes.ok || !data.metadata) {
+      return c.json(data, containerRes.status as ContentfulStatusCode);
+    }
+
+    storeInCache(data.response, data.authMode || "", data.metadata);
+
+    if (outputFormat === "json") {
+      const result: QueryResult = {
+        success: !!data.success,
+        response: data.response || "",
+        authMode: data.authMode || "",
+        route: "container",
+        result: data.metadata
+      };
+      return c.json(result);
+    }
+
+    return c.json({ success: data.success, response: data.response, authMode: data.authMode, route: "container" });
+  } catch (error: any) {
+    log.error("Query failed", { error });
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.post("/sessions", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (body.skill && !isSkillAllowed(auth.key, body.skill)) {
+      return authErrorResponse(403, `API key is not permitted to use skill '${body.skill}'`);
+    }
+
+    const session = await getAgentContainer(c.env, accountId).createSession(body.skill || null);
+    return c.json({ ...session, accountId }, 201);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to create session', message: error.message }, 500);
+  }
+});
+
+app.get("/sessions/:id", async (c) => {
+  const sessionId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const accountId = c.req.query('accountId') || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+    const session = await getAgentContainer(c.env, accountId).getSession(sessionId);
+    if (!session) {
+      return c.json({ error: `Session '${sessionId}' not found` }, 404);
+    }
+
+    return c.json({ ...session, accountId });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch session', message: error.message }, 500);
+  }
+});
+
+app.delete("/sessions/:id", async (c) => {
+  const sessionId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const accountId = c.req.query('accountId') || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+    const deleted = await getAgentContainer(c.env, accountId).deleteSession(sessionId);
+    if (!deleted) {
+      return c.json({ error: `Session '${sessionId}' not found` }, 404);
+    }
+
+    return c.json({ success: true, id: sessionId });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to delete session', message: error.message }, 500);
+  }
+});
+
+app.post("/sessions/:id/messages", async (c) => {
+  const receivedAt = Date.now();
+  const sessionId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { hasOAuth, hasApiKey, oauth } = await resolveAuth(c.env);
+
+    if (!hasOAuth && !hasApiKey) {
+      return c.json({ error: NO_AUTH_MESSAGE }, 500);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const prompt = body.query || body.prompt;
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!prompt) {
+      return c.json({ error: "No prompt provided" }, 400);
+    }
+
+    const parsedOptions = parseRunOptions(body, c.env);
+    if ('error' in parsedOptions) {
+      return c.json({ error: parsedOptions.error }, 400);
+    }
+
+    const agentError = await applyAgentOptions(c.env, body, parsedOptions.options);
+    if (agentError) {
+      return c.json({ error: agentError.error }, agentError.status);
+    }
+
+    const mcpError = await applyMcpOptions(c.env, accountId, body, parsedOptions.options);
+    if (mcpError) {
+      return c.json({ error: mcpError }, 400);
+    }
+
+    const toolsError = await applyToolCallbacks(c.env, accountId, body, parsedOptions.options);
+    if (toolsError) {
+      return c.json({ error: toolsError }, 400);
+    }
+
+    const approvalsError = applyApprovalOptions(c.env, body, parsedOptions.options);
+    if (approvalsError) {
+      return c.json({ error: approvalsError }, 400);
+    }
+
+    const rejected = rejectByTriageRules(c, accountId, prompt);
+    if (rejected) {
+      return rejected;
+    }
+
+    const state = await getAgentContainer(c.env, accountId).getSessionResumeState(sessionId);
+    if (!state) {
+      return c.json({ error: `Session '${sessionId}' not found` }, 404);
+    }
+
+    // Skill and framework context only need injecting once; later turns carry them in the transcript
+    const skillContext = state.skill && state.turns === 0 ? await loadSkillContext(c.env, state.skill) : '';
+    const enrichedPrompt = skillContext ? `${skillContext}${prompt}` : prompt;
+
+    let frameworkContext: string | undefined;
+    if (state.turns === 0) {
+      const framework = await resolveFrameworkContext(c.env, accountId, body);
+      if ('error' in framework) {
+        return c.json({ error: framework.error }, 400);
+      }
+      frameworkContext = framework.frameworkContext;
+    }
+
+    // Callers address the run by this id to cancel it or decide its approvals
+    const runId = crypto.randomUUID();
+    const quota = await enforceQuota(c, accountId, { runId, options: parsedOptions.options });
+    if ('response' in quota) {
+      return quota.response;
+    }
+
+    c.header('X-Run-Id', runId);
+
+    const promptHash = await sha256Hex(prompt);
+    const finish = ({ toolCalls = [], error = null, timedOut = false, ...fields }: RequestResult) => {
+      const sample: RunSample = {
+        accountId,
+        source: "session",
+        route: "container",
+        authMode: hasOAuth ? "subscription" : "api_key",
+        skill: state.skill,
+        model: parsedOptions.options.model || c.env.MODEL || "claude-sonnet-4-5",
+        exitCode: null,
+        coldStart: false,
+        containerStartMs: null,
+        cliMs: null,
+        totalMs: Date.now() - receivedAt,
+        metadata: null,
+        ...fields
+      };
+      recordRun(c, sample);
+      recordAudit(c, accountId, {
+        runId,
+        source: "session",
+        keyId: auth.key.id,
+        keyName: auth.key.name,
+        promptHash,
+        skill: sample.skill,
+        agents: requestedAgents(body),
+        sessionId,
+        route: sample.route,
+        toolCalls,
+        outcome: sample.outcome,
+        error,
+        durationMs: sample.totalMs,
+        costUsd: sample.metadata?.costUsd ?? 0
+      });
+      emitRunEvent(c, accountId, runEventType(sample.outcome, timedOut), runEventData(sample, runId, sessionId, error));
+    };
+    emitRunEvent(c, accountId, "run.started", { runId, source: "session", sessionId, skill: state.skill });
+
+    let result: ContainerRunResponse;
+    let containerRes: Response;
+    let started: Awaited<ReturnType<typeof startAgentContainer>> | null = null;
+    try {
+      started = await startAgentContainer(c.env, accountId, oauth);
+      if (parsedOptions.options.approvals) {
+        await started.instance.watchApprovals(runId, parsedOptions.options.approvals.webhookUrl);
+      }
+
+      containerRes = await started.instance.fetch(
+        new Request("http://container.internal/run", {
+          method: "POST",
+          headers: { "content-type": "application/json", ...traceHeaders(c.get("trace")) },
+          body: JSON.stringify({
+            prompt: enrichedPrompt,
+            runId,
+            options: parsedOptions.options,
+            frameworkContext,
+            session: {
+              id: state.cliSessionId,
+              resume: state.turns > 0,
+              transcript: state.transcript ?? undefined
+            }
+          })
+        })
+      );
+
+      result = await containerRes.json() as ContainerRunResponse;
+    } catch (error) {
+      releaseQuota(c, accountId, quota.leaseId, null);
+      finish({
+        outcome: "error",
+        coldStart: started?.coldStart ?? false,
+        containerStartMs: started?.startMs ?? null,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    releaseQuota(c, accountId, quota.leaseId, result.metadata ?? null);
+    finish({
+      outcome: containerRunOutcome(containerRes, result),
+      exitCode: result.execution?.exitCode ?? null,
+      coldStart: started.coldStart,
+      containerStartMs: started.startMs,
+      cliMs: result.execution?.durationMs ?? null,
+      metadata: result.metadata ?? null,
+      toolCalls: result.toolCalls,
+      error: result.error ?? null,
+      timedOut: result.execution?.timedOut
+    });
+    snapshotWorkspace(c, accountId);
+    if (!containerRes.ok) {
+      return c.json(result, containerRes.status as ContentfulStatusCode);
+    }
+
+    await started.instance.recordSessionTurn(sessionId, prompt, result.response || "", result.session?.transcript ?? null);
+
+    return c.json({
+      success: true,
+      sessionId,
+      response: result.response,
+      authMode: result.authMode
+    });
+  } catch (error: any) {
+    log.error("Session turn failed", { error });
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.post("/jobs", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { hasOAuth, hasApiKey, oauth } = await resolveAuth(c.env);
+
+    if (!hasOAuth && !hasApiKey) {
+      return c.json({ error: NO_AUTH_MESSAGE }, 500);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const prompt = body.query || body.prompt;
+    const skill = body.skill;
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (skill && !isSkillAllowed(auth.key, skill)) {
+      return authErrorResponse(403, `API key is not permitted to use skill '${skill}'`);
+    }
+    const webhookUrl = body.webhookUrl || null;
+
+    if (!prompt) {
+      return c.json({ error: "No prompt provided" }, 400);
+    }
+
+    if (webhookUrl && !isValidWebhookUrl(webhookUrl)) {
+      return c.json({ error: "webhookUrl must be an http(s) URL" }, 400);
+    }
+
+    const parsedOptions = parseRunOptions(body, c.env);
+    if ('error' in parsedOptions) {
+      return c.json({ error: parsedOptions.error }, 400);
+    }
+
+    const agentError = await applyAgentOptions(c.env, body, parsedOptions.options);
+    if (agentError) {
+      return c.json({ error: agentError.error }, agentError.status);
+    }
+
+    const mcpError = await applyMcpOptions(c.env, accountId, body, parsedOptions.options);
+    if (mcpError) {
+      return c.json({ error: mcpError }, 400);
+    }
+
+    const toolsError = await applyToolCallbacks(c.env, accountId, body, parsedOptions.options);
+    if (toolsError) {
+      return c.json({ error: toolsError }, 400);
+    }
+
+    const approvalsError = applyApprovalOptions(c.env, body, parsedOptions.options);
+    if (approvalsError) {
+      return c.json({ error: approvalsError }, 400);
+    }
+
+    const framework = await resolveFrameworkContext(c.env, accountId, body);
+    if ('error' in framework) {
+      return c.json({ error: framework.error }, 400);
+    }
+
+    const rejected = rejectByTriageRules(c, accountId, prompt);
+    if (rejected) {
+      return rejected;
+    }
+
+    // Jobs run one at a time from the DO alarm, so they only count towards rate and budget limits
+    const quota = await enforceQuota(c, accountId, null);
+    if ('response' in quota) {
+      return quota.response;
+    }
+
+    const skillContext = skill ? await loadSkillContext(c.env, skill) : '';
+    const enrichedPrompt = skillContext ? `${skillContext}${prompt}` : prompt;
+
+    const job = await getAgentContainer(c.env, accountId).enqueueJob(
+      accountId,
+      {
+        prompt: enrichedPrompt,
+        options: parsedOptions.options,
+        frameworkContext: framework.frameworkContext,
+        skill: skill || null,
+        trace: traceHeaders(c.get("trace")),
+        audit: {
+          keyId: auth.key.id,
+          keyName: auth.key.name,
+          promptHash: await sha256Hex(prompt),
+          agents: requestedAgents(body)
+        }
+      },
+      webhookUrl
+    );
+    log.info("Queued job", { jobId: job.id, accountId });
+
+    return c.json({ ...job, accountId }, 202);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to create job', message: error.message }, 500);
+  }
+});
+
+app.get("/jobs/:id", async (c) => {
+  const jobId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const accountId = c.req.query('accountId') || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+    const job = await getAgentContainer(c.env, accountId).getJob(jobId);
+    if (!job) {
+      return c.json({ error: `Job '${jobId}' not found` }, 404);
+    }
+
+    return c.json({ ...job, accountId });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch job', message: error.message }, 500);
+  }
+});
+
+app.delete("/jobs/:id", async (c) => {
+  const jobId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const accountId = c.req.query('accountId') || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+    const job = await getAgentContainer(c.env, accountId).cancelJob(jobId);
+    if (!job) {
+      return c.json({ error: `Job '${jobId}' not found` }, 404);
+    }
+
+    return c.json({ ...job, accountId });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to cancel job', message: error.message }, 500);
+  }
+});
+
+/**
+ * Workspace path from a /workspaces/:accountId/files/* URL
+ */
+function workspaceFilePath(c: Context<AppEnv>): string | null {
+  const match = c.req.path.match(/^\/workspaces\/[^/]+\/files\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+  try {
+    const filePath = decodeURIComponent(match[1]);
+    return isValidWorkspacePath(filePath) ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
+app.post("/runs/:id/cancel", async (c) => {
+  const runId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!await getAgentContainer(c.env, accountId).cancelRun(runId)) {
+      return c.json({ error: `Run '${runId}' is not active` }, 404);
+    }
+
+    log.info("Cancelled run", { accountId, runId, by: auth.key.id });
+    return c.json({ runId, accountId, status: "cancelled" });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to cancel run', message: error.message }, 500);
+  }
+});
+
+app.get("/runs/:id/pending", async (c) => {
+  const runId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const accountId = c.req.query('accountId') || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    const pending = await getAgentContainer(c.env, accountId).getPendingApprovals(runId);
+    return c.json({ runId, accountId, pending });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch pending approvals', message: error.message }, 500);
+  }
+});
+
+app.post("/runs/:id/approve", async (c) => {
+  const runId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    // Without approvalId every pending request of the run is approved
+    const parsed = parseApprovalDecision("allow", body);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const decided = await getAgentContainer(c.env, accountId).decideApprovals(runId, parsed.approvalId, parsed.decision, auth.key.id);
+    if (decided.length === 0) {
+      return c.json({ error: parsed.approvalId ? `Approval '${parsed.approvalId}' is not pending` : `Run '${runId}' has no pending approvals` }, 404);
+    }
+
+    return c.json({ runId, accountId, decided });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to approve tool use', message: error.message }, 500);
+  }
+});
+
+app.post("/runs/:id/deny", async (c) => {
+  const runId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const accountId = body.accountId || "default";
+
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    // Without approvalId every pending request of the run is denied
+    const parsed = parseApprovalDecision("deny", body);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const decided = await getAgentContainer(c.env, accountId).decideApprovals(runId, parsed.approvalId, parsed.decision, auth.key.id);
+    if (decided.length === 0) {
+      return c.json({ error: parsed.approvalId ? `Approval '${parsed.approvalId}' is not pending` : `Run '${runId}' has no pending approvals` }, 404);
+    }
+
+    return c.json({ runId, accountId, decided });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to deny tool use', message: error.message }, 500);
+  }
+});
+
+app.get("/workspaces/:accountId/files", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!c.env.WORKSPACE_BUCKET) {
+      return c.json({ error: 'Workspace bucket not configured' }, 500);
+    }
+
+    const files = await listWorkspaceObjects(c.env.WORKSPACE_BUCKET, accountId);
+    return c.json({
+      accountId,
+      count: files.size,
+      files: [...files].map(([path, file]) => ({ path, size: file.size, sha256: file.sha256 }))
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to list workspace files', message: error.message }, 500);
+  }
+});
+
+app.get("/workspaces/:accountId/files/*", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!c.env.WORKSPACE_BUCKET) {
+      return c.json({ error: 'Workspace bucket not configured' }, 500);
+    }
+
+    const filePath = workspaceFilePath(c);
+    if (!filePath) {
+      return c.json({ error: 'Invalid workspace path' }, 400);
+    }
+
+    const object = await c.env.WORKSPACE_BUCKET.get(workspaceKey(accountId, filePath));
+    if (!object) {
+      return c.json({ error: `File '${filePath}' not found` }, 404);
+    }
+
+    return c.body(object.body, 200, {
+      "content-type": object.httpMetadata?.contentType || "application/octet-stream",
+      "content-length": String(object.size),
+      "etag": object.httpEtag
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch workspace file', message: error.message }, 500);
+  }
+});
+
+app.put("/workspaces/:accountId/files/*", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!c.env.WORKSPACE_BUCKET) {
+      return c.json({ error: 'Workspace bucket not configured' }, 500);
+    }
+
+    const filePath = workspaceFilePath(c);
+    if (!filePath) {
+      return c.json({ error: 'Invalid workspace path' }, 400);
+    }
+
+    const maxBytes = parseInt(c.env.WORKSPACE_MAX_FILE_BYTES || "") || DEFAULT_WORKSPACE_MAX_FILE_BYTES;
+    if (parseInt(c.req.header('content-length') || "0") > maxBytes) {
+      return c.json({ error: `File exceeds the ${maxBytes} byte limit` }, 413);
+    }
+
+    // Buffered to hash it; the size is checked again for chunked uploads
+    const content = await c.req.arrayBuffer();
+    if (content.byteLength > maxBytes) {
+      return c.json({ error: `File exceeds the ${maxBytes} byte limit` }, 413);
+    }
+
+    const sha256 = await sha256Hex(content);
+    await c.env.WORKSPACE_BUCKET.put(workspaceKey(accountId, filePath), content, {
+      httpMetadata: { contentType: c.req.header('content-type') || "application/octet-stream" },
+      customMetadata: { sha256 }
+    });
+
+    log.info("Workspace file uploaded", { accountId, path: filePath, size: content.byteLength, by: auth.key.id });
+    return c.json({ accountId, path: filePath, size: content.byteLength, sha256 }, 201);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to upload workspace file', message: error.message }, 500);
+  }
+});
+
+app.delete("/workspaces/:accountId/files/*", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'query');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!isAccountAllowed(auth.key, accountId)) {
+      return authErrorResponse(403, `API key is not permitted for account '${accountId}'`);
+    }
+
+    if (!c.env.WORKSPACE_BUCKET) {
+      return c.json({ error: 'Workspace bucket not configured' }, 500);
+    }
+
+    const filePath = workspaceFilePath(c);
+    if (!filePath) {
+      return c.json({ error: 'Invalid workspace path' }, 400);
+    }
+
+    const key = workspaceKey(accountId, filePath);
+    if (!await c.env.WORKSPACE_BUCKET.head(key)) {
+      return c.json({ error: `File '${filePath}' not found` }, 404);
+    }
+
+    await c.env.WORKSPACE_BUCKET.delete(key);
+    log.info("Workspace file deleted", { accountId, path: filePath, by: auth.key.id });
+    return c.json({ success: true, accountId, path: filePath });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to delete workspace file', message: error.message }, 500);
+  }
+});
+
+app.post("/admin/keys", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.KEY_REGISTRY) {
+      return c.json({ error: 'Key registry not configured' }, 500);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const parsed = parseKeyInput(body);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const { record, key } = await getKeyRegistry(c.env).createKey(parsed.input);
+    log.info("Created API key", { keyId: record.id, name: record.name, by: auth.key.id });
+
+    // The plaintext key is only ever returned here
+    return c.json({ ...record, key }, 201);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to create key', message: error.message }, 500);
+  }
+});
+
+app.get("/admin/keys", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.KEY_REGISTRY) {
+      return c.json({ error: 'Key registry not configured' }, 500);
+    }
+
+    const keys = await getKeyRegistry(c.env).listKeys();
+    return c.json({ count: keys.length, keys });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to list keys', message: error.message }, 500);
+  }
+});
+
+app.post("/admin/keys/:id/rotate", async (c) => {
+  const keyId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.KEY_REGISTRY) {
+      return c.json({ error: 'Key registry not configured' }, 500);
+    }
+
+    // Optionally keep the old secret valid while clients roll over
+    const body = await c.req.json().catch(() => ({}));
+    const gracePeriodSeconds = Number(body.gracePeriodSeconds || 0);
+    if (!Number.isFinite(gracePeriodSeconds) || gracePeriodSeconds < 0) {
+      return c.json({ error: "gracePeriodSeconds must be a non-negative number" }, 400);
+    }
+
+    const rotated = await getKeyRegistry(c.env).rotateKey(keyId, gracePeriodSeconds * 1000);
+    if (!rotated) {
+      return c.json({ error: `Key '${keyId}' not found or revoked` }, 404);
+    }
+
+    log.info("Rotated API key", { keyId, gracePeriodSeconds, by: auth.key.id });
+    return c.json({ ...rotated.record, key: rotated.key });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to rotate key', message: error.message }, 500);
+  }
+});
+
+app.delete("/admin/keys/:id", async (c) => {
+  const keyId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    if (!c.env.KEY_REGISTRY) {
+      return c.json({ error: 'Key registry not configured' }, 500);
+    }
+
+    const record = await getKeyRegistry(c.env).revokeKey(keyId);
+    if (!record) {
+      return c.json({ error: `Key '${keyId}' not found` }, 404);
+    }
+
+    log.info("Revoked API key", { keyId, by: auth.key.id });
+    return c.json(record);
+  } catch (error: any) {
+    return c.json({ error: 'Failed to revoke key', message: error.message }, 500);
+  }
+});
+
+app.get("/admin/accounts/:accountId/limits", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const instance = getAgentContainer(c.env, accountId);
+    const defaults = defaultQuotaLimits(c.env);
+    const overrides = await instance.getQuotaOverrides();
+
+    return c.json({
+      accountId,
+      defaults,
+      overrides,
+      effective: { ...defaults, ...overrides },
+      usage: await instance.getQuotaUsage()
+    });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch limits', message: error.message }, 500);
+  }
+});
+
+app.put("/admin/accounts/:accountId/limits", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    // Replaces all overrides: a number sets the limit, null makes it unlimited, omitted uses the default
+    const body = await c.req.json().catch(() => ({}));
+    const overrides: Partial<QuotaLimits> = {};
+    for (const field of ["requestsPerMinute", "maxConcurrent", "dailyTokenBudget", "dailyCostBudgetUsd"] as const) {
+      if (!(field in body)) continue;
+      if (body[field] !== null && !(typeof body[field] === "number" && body[field] > 0)) {
+        return c.json({ error: `${field} must be a positive number or null` }, 400);
+      }
+      overrides[field] = body[field];
+    }
+
+    await getAgentContainer(c.env, accountId).setQuotaOverrides(overrides);
+    log.info("Updated account limits", { accountId, overrides, by: auth.key.id });
+
+    const defaults = defaultQuotaLimits(c.env);
+    return c.json({ accountId, defaults, overrides, effective: { ...defaults, ...overrides } });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to update limits', message: error.message }, 500);
+  }
+});
 
-app.get("/health", async (c) => {
-  // Health check endpoint does not require API key authentication
-  const expiresAt = parseInt(c.env?.CLAUDE_EXPIRES_AT || "0");
-  const isOAuthValid = !!(c.env?.CLAUDE_ACCESS_TOKEN && c.env?.CLAUDE_REFRESH_TOKEN && expiresAt > Date.now());
-  const hasApiKey = !!c.env?.ANTHROPIC_API_KEY;
-  const hasWorkerAuth = !!(c.env?.WORKER_API_KEY);
+app.get("/admin/accounts/:accountId/framework", async (c) => {
+  const accountId = c.req.param('accountId');
 
-  // Check skills availability
-  let skillsAvailable = false;
-  let skillCount = 0;
   try {
-    const index = await c.env?.SKILLS_BUCKET?.get('index.json');
-    if (index) {
-      const data = await index.json() as { count?: number };
-      skillsAvailable = true;
-      skillCount = data.count || 0;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
-  } catch (e) {
-    // R2 not available or empty
+
+    const defaults = defaultFrameworkProfile(c.env);
+    const overrides = await getAgentContainer(c.env, accountId).getFrameworkProfile();
+    return c.json({ accountId, defaults, overrides, effective: { ...defaults, ...overrides } });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch framework profile', message: error.message }, 500);
   }
+});
+
+app.put("/admin/accounts/:accountId/framework", async (c) => {
+  const accountId = c.req.param('accountId');
 
-  // Check agents availability
-  let agentsAvailable = false;
-  let agentCount = 0;
   try {
-    const index = await c.env?.SKILLS_BUCKET?.get('agents/index.json');
-    if (index) {
-      const data = await index.json() as { count?: number };
-      agentsAvailable = true;
-      agentCount = data.count || 0;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
-  } catch (e) {
-    // Agents not synced yet
+
+    // Replaces the profile: omitted fields use the Worker defaults, maxTokens null removes the cap
+    const body = await c.req.json().catch(() => ({}));
+    const overrides: Partial<FrameworkProfile> = {};
+    if ("framework" in body) {
+      const framework = parseFrameworkSelection(body.framework);
+      if (!framework) {
+        return c.json({ error: "framework must be 'none', 'bundled' or a non-empty array of file names / 'category:<name>' selectors" }, 400);
+      }
+      overrides.framework = framework;
+    }
+    if ("maxTokens" in body) {
+      if (body.maxTokens !== null && !(Number.isInteger(body.maxTokens) && body.maxTokens > 0)) {
+        return c.json({ error: "maxTokens must be a positive integer or null" }, 400);
+      }
+      overrides.maxTokens = body.maxTokens;
+    }
+
+    await getAgentContainer(c.env, accountId).setFrameworkProfile(overrides);
+    log.info("Updated framework profile", { accountId, overrides, by: auth.key.id });
+
+    const defaults = defaultFrameworkProfile(c.env);
+    return c.json({ accountId, defaults, overrides, effective: { ...defaults, ...overrides } });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to update framework profile', message: error.message }, 500);
   }
+});
+
+app.get("/admin/accounts/:accountId/mcp", async (c) => {
+  const accountId = c.req.param('accountId');
 
-  // Check framework availability
-  let frameworkAvailable = false;
-  let frameworkCount = 0;
   try {
-    const index = await c.env?.SKILLS_BUCKET?.get('framework/index.json');
-    if (index) {
-      const data = await index.json() as { count?: number };
-      frameworkAvailable = true;
-      frameworkCount = data.count || 0;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
-  } catch (e) {
-    // Framework not synced yet
-  }
 
-  return c.json({
-    status: "healthy",
-    authMode: isOAuthValid ? "subscription" : (hasApiKey ? "api_key" : "none"),
-    oauthExpired: !isOAuthValid && !!(c.env?.CLAUDE_ACCESS_TOKEN),
-    oauthExpiresAt: isOAuthValid ? new Date(expiresAt).toISOString() : null,
-    hasContainer: !!c.env?.AGENT_CONTAINER,
-    hasWorkerAuth,
-    skillsAvailable,
-    skillCount,
-    agentsAvailable,
-    agentCount,
-    frameworkAvailable,
-    frameworkCount,
-    timestamp: new Date().toISOString(),
-  });
+    const summary = await getAgentContainer(c.env, accountId).getMcpSummary();
+    return c.json({ accountId, ...summary });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch MCP settings', message: error.message }, 500);
+  }
 });
 
-app.get("/skills", async (c) => {
+app.put("/admin/accounts/:accountId/mcp", async (c) => {
+  const accountId = c.req.param('accountId');
+
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
+    // defaultServers replaces the list; secrets are merged, with null removing a secret
+    const body = await c.req.json().catch(() => ({}));
+    const update: { defaultServers?: string[]; secrets?: Record<string, string | null> } = {};
+
+    if ("defaultServers" in body) {
+      if (!Array.isArray(body.defaultServers) || !body.defaultServers.every((n: unknown) => typeof n === "string")) {
+        return c.json({ error: "defaultServers must be an array of MCP server names" }, 400);
+      }
+      const catalog = parseMcpCatalog(c.env);
+      const unknown = body.defaultServers.filter((n: string) => !catalog[n]);
+      if (unknown.length > 0) {
+        return c.json({ error: `Unknown MCP servers: ${unknown.join(', ')}` }, 400);
+      }
+      update.defaultServers = body.defaultServers;
     }
 
-    const index = await c.env.SKILLS_BUCKET.get('index.json');
-    if (!index) {
-      return c.json({ error: 'Skills index not found' }, 404);
+    if ("secrets" in body) {
+      if (typeof body.secrets !== "object" || body.secrets === null || Array.isArray(body.secrets)) {
+        return c.json({ error: "secrets must be an object of secret name -> value (or null to remove)" }, 400);
+      }
+      for (const [name, value] of Object.entries(body.secrets)) {
+        if (!MCP_SECRET_NAME_PATTERN.test(name)) {
+          return c.json({ error: `Invalid secret name '${name}'` }, 400);
+        }
+        if (value !== null && typeof value !== "string") {
+          return c.json({ error: `Secret '${name}' must be a string or null` }, 400);
+        }
+        if (value !== null && !c.env.MCP_SECRETS_KEY) {
+          return c.json({ error: 'Server configuration error: MCP_SECRETS_KEY not set' }, 500);
+        }
+      }
+      update.secrets = body.secrets;
     }
 
-    const data = await index.json();
-    return c.json(data);
+    const summary = await getAgentContainer(c.env, accountId).updateMcpSettings(update);
+    log.info("Updated MCP settings", {
+      accountId,
+      defaultServers: summary.defaultServers,
+      secretNames: Object.keys(body.secrets || {}),
+      by: auth.key.id
+    });
+
+    return c.json({ accountId, ...summary });
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch skills', message: error.message }, 500);
+    return c.json({ error: 'Failed to update MCP settings', message: error.message }, 500);
   }
 });
 
-app.get("/skills/:name", async (c) => {
-  const skillName = c.req.param('name');
+app.get("/admin/accounts/:accountId/callback-secret", async (c) => {
+  const accountId = c.req.param('accountId');
 
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
-    }
+    const secret = await getAgentContainer(c.env, accountId).getCallbackSecret();
+    return c.json({ accountId, secret });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch callback secret', message: error.message }, 500);
+  }
+});
 
-    // First check index for the skill path
-    const index = await c.env.SKILLS_BUCKET.get('index.json');
-    if (!index) {
-      return c.json({ error: 'Skills index not found' }, 404);
+app.post("/admin/accounts/:accountId/callback-secret/rotate", async (c) => {
+  const accountId = c.req.param('accountId');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    const indexData = await index.json() as { skills: Array<{ name: string; path: string; description: string; category: string }> };
-    const skill = indexData.skills.find(s => s.name === skillName);
+    // Runs already in progress keep signing with the old secret
+    const secret = await getAgentContainer(c.env, accountId).rotateCallbackSecret();
+    log.info("Rotated callback secret", { accountId, by: auth.key.id });
+    return c.json({ accountId, secret });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to rotate callback secret', message: error.message }, 500);
+  }
+});
 
-    if (!skill) {
-      return c.json({ error: `Skill '${skillName}' not found` }, 404);
-    }
+app.get("/admin/accounts/:accountId/webhooks", async (c) => {
+  const accountId = c.req.param('accountId');
 
-    // Fetch the skill content
-    const content = await c.env.SKILLS_BUCKET.get(skill.path);
-    if (!content) {
-      return c.json({ error: 'Skill file not found' }, 404);
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    const text = await content.text();
-    return c.json({
-      name: skill.name,
-      description: skill.description,
-      category: skill.category,
-      content: text
-    });
+    const webhooks = await getAgentContainer(c.env, accountId).listWebhooks();
+    return c.json({ accountId, webhooks });
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch skill', message: error.message }, 500);
+    return c.json({ error: 'Failed to fetch webhooks', message: error.message }, 500);
   }
 });
 
-app.get("/agents", async (c) => {
+app.post("/admin/accounts/:accountId/webhooks", async (c) => {
+  const accountId = c.req.param('accountId');
+
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
+    // events defaults to every event type
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.url !== "string" || !isValidWebhookUrl(body.url)) {
+      return c.json({ error: "url must be an http(s) URL" }, 400);
     }
-
-    const index = await c.env.SKILLS_BUCKET.get('agents/index.json');
-    if (!index) {
-      return c.json({ error: 'Agents index not found' }, 404);
+    const events = body.events ?? WEBHOOK_EVENT_TYPES;
+    if (!Array.isArray(events) || events.length === 0 || !events.every((e: unknown) => WEBHOOK_EVENT_TYPES.includes(e as WebhookEventType))) {
+      return c.json({ error: `events must be a non-empty array of: ${WEBHOOK_EVENT_TYPES.join(', ')}` }, 400);
     }
 
-    const data = await index.json();
-    return c.json(data);
+    const webhook = await getAgentContainer(c.env, accountId).createWebhook(accountId, body.url, [...new Set(events as WebhookEventType[])]);
+    log.info("Created webhook", { accountId, webhookId: webhook.id, events: webhook.events, by: auth.key.id });
+    return c.json({ accountId, ...webhook }, 201);
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch agents', message: error.message }, 500);
+    return c.json({ error: 'Failed to create webhook', message: error.message }, 500);
   }
 });
 
-app.get("/agents/:category/:name", async (c) => {
-  const category = c.req.param('category');
-  const agentName = c.req.param('name');
+app.delete("/admin/accounts/:accountId/webhooks/:id", async (c) => {
+  const accountId = c.req.param('accountId');
+  const webhookId = c.req.param('id');
 
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
+    if (!await getAgentContainer(c.env, accountId).deleteWebhook(webhookId)) {
+      return c.json({ error: `Webhook '${webhookId}' not found` }, 404);
     }
+    log.info("Deleted webhook", { accountId, webhookId, by: auth.key.id });
+    return c.json({ success: true, id: webhookId });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to delete webhook', message: error.message }, 500);
+  }
+});
 
-    // First check index for the agent path
-    const index = await c.env.SKILLS_BUCKET.get('agents/index.json');
-    if (!index) {
-      return c.json({ error: 'Agents index not found' }, 404);
+app.get("/admin/accounts/:accountId/webhooks/:id/deliveries", async (c) => {
+  const accountId = c.req.param('accountId');
+  const webhookId = c.req.param('id');
+
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    const indexData = await index.json() as {
-      agents: Array<{
-        name: string;
-        path: string;
-        description: string;
-        category: string;
-        tier?: string;
-      }>
-    };
+    const limit = Math.max(1, Math.min(parseInt(c.req.query('limit') || '50') || 50, 500));
+    const deliveries = await getAgentContainer(c.env, accountId).listWebhookDeliveries(webhookId, limit);
+    return c.json({ accountId, webhookId, deliveries });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch webhook deliveries', message: error.message }, 500);
+  }
+});
 
-    // Try both with .md extension and without
-    const agent = indexData.agents.find(a =>
-      a.category === category && (a.name === agentName || a.name === `${agentName}.md`)
-    );
+app.get("/admin/metrics", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
 
-    if (!agent) {
-      return c.json({ error: `Agent '${agentName}' not found in category '${category}'` }, 404);
+    if (!c.env.METRICS_STORE) {
+      return c.json({ error: 'Metrics store not configured' }, 500);
     }
 
-    // Fetch the agent content
-    const content = await c.env.SKILLS_BUCKET.get(`agents/${agent.path}`);
-    if (!content) {
-      return c.json({ error: 'Agent file not found' }, 404);
+    const accountId = c.req.query('accountId') || null;
+    if (accountId && !isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+    const from = c.req.query('from') || null;
+    const to = c.req.query('to') || null;
+    if ((from && !DAY_PATTERN.test(from)) || (to && !DAY_PATTERN.test(to))) {
+      return c.json({ error: "from and to must be dates (YYYY-MM-DD)" }, 400);
     }
 
-    const text = await content.text();
+    const accounts = await getMetricsStore(c.env).getSummary({ accountId, from, to });
     return c.json({
-      name: agent.name,
-      description: agent.description,
-      category: agent.category,
-      tier: agent.tier,
-      content: text
+      from,
+      to,
+      accounts: accounts.map(({ key, ...totals }) => ({ accountId: key, ...totals }))
     });
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch agent', message: error.message }, 500);
+    return c.json({ error: 'Failed to fetch metrics', message: error.message }, 500);
   }
 });
 
-app.get("/framework", async (c) => {
+app.get("/admin/audit", async (c) => {
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
+    const accountId = c.req.query('accountId') || "default";
+    if (!isValidAccountId(accountId)) {
+      return c.json({ error: "Invalid accountId" }, 400);
+    }
+    const fromParam = c.req.query('from');
+    const toParam = c.req.query('to');
+    const from = fromParam ? Date.parse(fromParam) : null;
+    let to = toParam ? Date.parse(toParam) : null;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return c.json({ error: "from and to must be dates (YYYY-MM-DD) or ISO timestamps" }, 400);
+    }
+    // A bare date as the upper bound includes that whole day
+    if (to !== null && DAY_PATTERN.test(toParam!)) {
+      to += 24 * 60 * 60 * 1000;
     }
 
-    const index = await c.env.SKILLS_BUCKET.get('framework/index.json');
-    if (!index) {
-      return c.json({ error: 'Framework index not found' }, 404);
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 500);
+    const cursor = c.req.query('cursor') || null;
+    if (cursor && !/^\d+:[0-9a-f-]+$/.test(cursor)) {
+      return c.json({ error: "Invalid cursor" }, 400);
     }
 
-    const data = await index.json();
-    return c.json(data);
+    const page = await getAgentContainer(c.env, accountId).listAudit({ from, to, cursor, limit: Math.max(limit, 1) });
+    return c.json({ accountId, ...page });
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch framework', message: error.message }, 500);
+    return c.json({ error: 'Failed to fetch audit log', message: error.message }, 500);
   }
 });
 
-app.get("/framework/:name", async (c) => {
-  const fileName = c.req.param('name');
-
+app.get("/metrics", async (c) => {
   try {
-    // Validate API key
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY;
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
-    }
-
-    if (!c.env.SKILLS_BUCKET) {
-      return c.json({ error: 'Skills bucket not configured' }, 500);
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    // First check index for the framework file
-    const index = await c.env.SKILLS_BUCKET.get('framework/index.json');
-    if (!index) {
-      return c.json({ error: 'Framework index not found' }, 404);
+    if (!c.env.METRICS_STORE) {
+      return c.json({ error: 'Metrics store not configured' }, 500);
     }
 
-    const indexData = await index.json() as {
-      files: Array<{
-        name: string;
-        path: string;
-        description: string;
-        category: string;
-      }>
-    };
-
-    const file = indexData.files.find(f => f.name === fileName);
+    const text = renderPrometheusMetrics(await getMetricsStore(c.env).getSeries());
+    return c.text(text, 200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' });
+  } catch (error: any) {
+    return c.json({ error: 'Failed to fetch metrics', message: error.message }, 500);
+  }
+});
 
-    if (!file) {
-      return c.json({ error: `Framework file '${fileName}' not found` }, 404);
+app.get("/admin/credentials", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    // Fetch the framework file content
-    const content = await c.env.SKILLS_BUCKET.get(`framework/${file.path}`);
-    if (!content) {
-      return c.json({ error: 'Framework file not found' }, 404);
+    if (!c.env.CREDENTIAL_STORE) {
+      return c.json({ error: 'Credential store not configured' }, 500);
     }
 
-    const text = await content.text();
-    return c.json({
-      name: file.name,
-      description: file.description,
-      category: file.category,
-      content: text
-    });
+    return c.json(await getCredentialStore(c.env).getStatus());
   } catch (error: any) {
-    return c.json({ error: 'Failed to fetch framework file', message: error.message }, 500);
+    return c.json({ error: 'Failed to fetch credentials status', message: error.message }, 500);
   }
 });
 
-app.post("/query", async (c) => {
+app.put("/admin/credentials", async (c) => {
   try {
-    // Validate API key using x-api-key header
-    const apiKey = c.env.WORKER_API_KEY || c.env.API_KEY; // Fallback to legacy API_KEY
-    const authError = validateApiKey(c.req.raw, apiKey);
-    if (authError) {
-      return authError;
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
     }
 
-    // Check for valid OAuth credentials (Max subscription) or API key fallback
-    // OAuth tokens need both ACCESS_TOKEN and REFRESH_TOKEN, and ACCESS_TOKEN should not be expired
-    const hasOAuth = !!(c.env.CLAUDE_ACCESS_TOKEN && c.env.CLAUDE_REFRESH_TOKEN && parseInt(c.env.CLAUDE_EXPIRES_AT || "0") > Date.now());
-    const hasApiKey = !!c.env.ANTHROPIC_API_KEY;
-
-    if (!hasOAuth && !hasApiKey) {
-      return c.json({
-        error: "No valid authentication configured. OAuth tokens expired or missing. Set valid CLAUDE_ACCESS_TOKEN + CLAUDE_REFRESH_TOKEN (for Max subscription) or ANTHROPIC_API_KEY"
-      }, 500);
+    if (!c.env.CREDENTIAL_STORE) {
+      return c.json({ error: 'Credential store not configured' }, 500);
     }
 
     const body = await c.req.json().catch(() => ({}));
-    const prompt = body.query || body.prompt;
-    const skill = body.skill;
-    const accountId = body.accountId || "default";
-
-    if (!prompt) {
-      return c.json({ error: "No prompt provided" }, 400);
+    const expiresAt = typeof body.expiresAt === "number" ? body.expiresAt : new Date(body.expiresAt).getTime();
+    if (typeof body.accessToken !== "string" || typeof body.refreshToken !== "string" || isNaN(expiresAt)) {
+      return c.json({ error: "accessToken, refreshToken and expiresAt are required" }, 400);
     }
 
-    // Load skill context if requested
-    let skillContext = '';
-    if (skill) {
-      try {
-        // Fetch skill from R2
-        const index = await c.env.SKILLS_BUCKET?.get('index.json');
-        if (index) {
-          const indexData = await index.json() as { skills: Array<{ name: string; path: string; description: string; category: string }> };
-          const skillMeta = indexData.skills.find(s => s.name === skill);
-          if (skillMeta) {
-            const skillContent = await c.env.SKILLS_BUCKET?.get(skillMeta.path);
-            if (skillContent) {
-              const skillText = await skillContent.text();
-              skillContext = `\n\n---\n\n# Active Skill: ${skill}\n\n${skillText}\n\n---\n\n`;
-            }
-          }
-        }
-      } catch (e: any) {
-        console.log(`[Query] Failed to load skill ${skill}:`, e.message);
-      }
-    }
+    const store = getCredentialStore(c.env);
+    await store.setCredentials({ accessToken: body.accessToken, refreshToken: body.refreshToken, expiresAt });
+    log.info("Replaced OAuth credentials", { by: auth.key.id });
 
-    // Inject skill context into prompt if available
-    const enrichedPrompt = skillContext ? `${skillContext}${prompt}` : prompt;
+    return c.json(await store.getStatus());
+  } catch (error: any) {
+    return c.json({ error: 'Failed to update credentials', message: error.message }, 500);
+  }
+});
 
-    console.log("[Query] Auth mode:", hasOAuth ? "subscription" : "api_key");
-    if (skill) {
-      console.log(`[Query] Loaded skill: ${skill} (${skillContext.length > 0 ? 'success' : 'failed'})`);
-    }
-
-    const id = c.env.AGENT_CONTAINER.idFromName(accountId);
-    const instance = c.env.AGENT_CONTAINER.get(id);
-
-    await instance.startAndWaitForPorts({
-      ports: [8080],
-      startOptions: {
-        envVars: {
-          // OAuth credentials for Max subscription (only if valid)
-          CLAUDE_ACCESS_TOKEN: hasOAuth ? (c.env.CLAUDE_ACCESS_TOKEN || "") : "",
-          CLAUDE_REFRESH_TOKEN: hasOAuth ? (c.env.CLAUDE_REFRESH_TOKEN || "") : "",
-          CLAUDE_EXPIRES_AT: hasOAuth ? (c.env.CLAUDE_EXPIRES_AT || "") : "",
-          // Fallback API key
-          ANTHROPIC_API_KEY: c.env.ANTHROPIC_API_KEY || "",
-          // Model and subscription flags (only enable if OAuth is valid)
-          MODEL: c.env.MODEL || "claude-sonnet-4-5",
-          CLAUDE_USE_SUBSCRIPTION: hasOAuth ? "true" : "false",
-          CLAUDE_BYPASS_BALANCE_CHECK: "true",
-        },
-      },
-    });
+app.post("/admin/credentials/refresh", async (c) => {
+  try {
+    // Validate API key and scope
+    const auth = await authenticateRequest(c.req.raw, c.env, 'admin');
+    if ('response' in auth) {
+      return auth.response;
+    }
 
-    const containerRes = await instance.fetch(
-      new Request("http://container.internal/run", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ prompt: enrichedPrompt })
-      })
-    );
+    if (!c.env.CREDENTIAL_STORE) {
+      return c.json({ error: 'Credential store not configured' }, 500);
+    }
 
-    return c.newResponse(containerRes.body, containerRes);
+    const store = getCredentialStore(c.env);
+    const refreshed = await store.refresh();
+    const status = await store.getStatus();
+
+    return c.json({ success: !!refreshed, ...status }, refreshed ? 200 : 502);
   } catch (error: any) {
-    console.error("[Query Error]", error);
-    return c.json({ error: error.message }, 500);
+    return c.json({ error: 'Failed to refresh credentials', message: error.message }, 500);
   }
 });
 
@@ -0,0 +1,94 @@
+#!/bin/bash
+# Test Worker-to-container authentication
+# Usage: ./test-container-auth.sh [worker-port]
+#
+# 1. Builds the container image and checks it rejects requests without its token,
+#    with a wrong token, and every request when started without a token
+# 2. If `wrangler dev` is running on [worker-port] (default 8787), runs a query
+#    through the Worker, which only succeeds if the Durable Object sent the token
+
+set -e
+cd "$(dirname "$0")"
+
+PORT=${1:-8787}
+IMAGE=claude-agent-auth-test
+CONTAINER_PORT=18080
+TOKEN="cct_$(openssl rand -hex 32)"
+FAILED=0
+
+check() {
+  local name=$1 expected=$2 actual=$3
+  if [ "$actual" = "$expected" ]; then
+    echo "✓ $name ($actual)"
+  else
+    echo "✗ $name: expected $expected, got $actual"
+    FAILED=1
+  fi
+}
+
+status() {
+  curl -s -o /dev/null -w '%{http_code}' "$@"
+}
+
+cleanup() {
+  docker rm -f "$IMAGE" "$IMAGE-open" > /dev/null 2>&1 || true
+}
+trap cleanup EXIT
+
+echo "Building container image..."
+docker build -q -t "$IMAGE" . > /dev/null
+
+echo ""
+echo "1. Container started with a token:"
+docker run -d --name "$IMAGE" -e CONTAINER_AUTH_TOKEN="$TOKEN" -p "$CONTAINER_PORT:8080" "$IMAGE" > /dev/null
+for _ in $(seq 1 30); do
+  curl -sf "http://localhost:$CONTAINER_PORT/healthz" > /dev/null && break
+  sleep 1
+done
+
+URL="http://localhost:$CONTAINER_PORT"
+check "health check needs no token" 200 "$(status "$URL/healthz")"
+check "run without token" 401 "$(status -X POST "$URL/run" -H "Content-Type: application/json" -d '{}')"
+check "run with wrong token" 401 "$(status -X POST "$URL/run" -H "x-container-token: cct_wrong" -H "Content-Type: application/json" -d '{}')"
+check "legacy x-api-key is not accepted" 401 "$(status -X POST "$URL/run" -H "x-api-key: $TOKEN" -H "Content-Type: application/json" -d '{}')"
+# Authenticated, then rejected for the missing prompt, so the CLI never runs
+check "run with token" 400 "$(status -X POST "$URL/run" -H "x-container-token: $TOKEN" -H "Content-Type: application/json" -d '{}')"
+check "credentials without token" 401 "$(status -X POST "$URL/credentials" -H "Content-Type: application/json" -d '{}')"
+check "workspace without token" 401 "$(status "$URL/workspace/files")"
+check "workspace with token" 200 "$(status "$URL/workspace/files" -H "x-container-token: $TOKEN")"
+check "cancel without token" 401 "$(status -X POST "$URL/runs/some-run/cancel")"
+check "unknown bridge" 404 "$(status -X POST "$URL/bridges/unknown/callbacks/mcp")"
+
+echo ""
+echo "2. Container started without a token:"
+docker run -d --name "$IMAGE-open" -p "$((CONTAINER_PORT + 1)):8080" "$IMAGE" > /dev/null
+for _ in $(seq 1 30); do
+  curl -sf "http://localhost:$((CONTAINER_PORT + 1))/healthz" > /dev/null && break
+  sleep 1
+done
+
+URL="http://localhost:$((CONTAINER_PORT + 1))"
+check "health check" 200 "$(status "$URL/healthz")"
+check "run without token" 401 "$(status -X POST "$URL/run" -H "Content-Type: application/json" -d '{}')"
+check "run with any token" 401 "$(status -X POST "$URL/run" -H "x-container-token: $TOKEN" -H "Content-Type: application/json" -d '{}')"
+
+echo ""
+echo "3. Worker to container:"
+if ! curl -sf "http://localhost:$PORT/health" > /dev/null; then
+  echo "- skipped: no Worker on port $PORT (start it with npm run dev)"
+else
+  API_KEY=$(grep -E '^(WORKER_API_KEY|API_KEY)=' .dev.vars | head -1 | cut -d= -f2 | tr -d "'\"")
+  RESPONSE=$(curl -s -X POST "http://localhost:$PORT/query" \
+    -H "Content-Type: application/json" \
+    -H "x-api-key: $API_KEY" \
+    -d '{"query": "What is 2+2? Just the number.", "triage": false, "cache": false}')
+  check "query through the Worker" true "$(echo "$RESPONSE" | jq -r '.success')"
+fi
+
+echo ""
+if [ "$FAILED" = 0 ]; then
+  echo "✓ All checks passed"
+else
+  echo "✗ Some checks failed"
+  exit 1
+fi
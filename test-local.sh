@@ -5,18 +5,19 @@ set -e
 cd "$(dirname "$0")"
 
 # Source .dev.vars (strip quotes and ^C artifacts)
-export $(grep -E '^(CLAUDE_ACCESS_TOKEN|CLAUDE_REFRESH_TOKEN|CLAUDE_EXPIRES_AT|WORKER_API_KEY)=' .dev.vars | sed "s/['\"]//g" | sed 's/\^C$//')
+export $(grep -E '^(CLAUDE_ACCESS_TOKEN|CLAUDE_EXPIRES_AT)=' .dev.vars | sed "s/['\"]//g" | sed 's/\^C$//')
+
+# The container rejects requests without its token; in production the Durable Object mints one per instance
+export CONTAINER_AUTH_TOKEN=${CONTAINER_AUTH_TOKEN:-$(openssl rand -hex 32)}
 
 echo "Testing with credentials from .dev.vars"
 echo "Access token: ${CLAUDE_ACCESS_TOKEN:0:20}..."
-echo "Refresh token: ${CLAUDE_REFRESH_TOKEN:0:20}..."
-echo "Worker API key: ${WORKER_API_KEY:0:20}..."
+echo "Container token: ${CONTAINER_AUTH_TOKEN}"
 
 docker run --rm \
   -e CLAUDE_ACCESS_TOKEN \
-  -e CLAUDE_REFRESH_TOKEN \
   -e CLAUDE_EXPIRES_AT \
-  -e WORKER_API_KEY \
+  -e CONTAINER_AUTH_TOKEN \
   -p 8080:8080 \
   cloudflare-agents:fixed
 
@@ -24,8 +25,8 @@ docker run --rm \
 # Health check (no auth required):
 #   curl http://localhost:8080/healthz
 #
-# Execute query (requires API key):
+# Execute query (requires the container token):
 #   curl -X POST http://localhost:8080/run \
 #     -H "Content-Type: application/json" \
-#     -H "x-api-key: ${WORKER_API_KEY}" \
+#     -H "x-container-token: ${CONTAINER_AUTH_TOKEN}" \
 #     -d '{"prompt": "What is 2+2?"}'
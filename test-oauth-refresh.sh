@@ -0,0 +1,105 @@
+#!/bin/bash
+# Test OAuth token refresh against the mock token endpoint
+# Usage: ./test-oauth-refresh.sh [worker-port] [mock-port]
+#
+# 1. Starts scripts/mock-oauth-server.ts and checks it rotates refresh tokens
+#    and rejects one that was already used
+# 2. If `wrangler dev` is running on [worker-port] (default 8787) with
+#    OAUTH_TOKEN_URL pointing at the mock, checks that /health never calls the
+#    token endpoint, even with an expired token, and that /admin/credentials/refresh does
+
+set -e
+cd "$(dirname "$0")"
+
+PORT=${1:-8787}
+MOCK_PORT=${2:-8788}
+MOCK_URL="http://localhost:$MOCK_PORT/v1/oauth/token"
+MOCK_LOG=$(mktemp)
+FAILED=0
+
+check() {
+  local name=$1 expected=$2 actual=$3
+  if [ "$actual" = "$expected" ]; then
+    echo "✓ $name ($actual)"
+  else
+    echo "✗ $name: expected $expected, got $actual"
+    FAILED=1
+  fi
+}
+
+status() {
+  curl -s -o /dev/null -w '%{http_code}' "$@"
+}
+
+token_requests() {
+  grep -c '^Token request' "$MOCK_LOG" || true
+}
+
+cleanup() {
+  [ -n "$MOCK_PID" ] && kill "$MOCK_PID" 2> /dev/null || true
+  rm -f "$MOCK_LOG"
+}
+trap cleanup EXIT
+
+echo "Starting mock token endpoint on port $MOCK_PORT..."
+npx tsx scripts/mock-oauth-server.ts "$MOCK_PORT" > "$MOCK_LOG" 2>&1 &
+MOCK_PID=$!
+for _ in $(seq 1 30); do
+  grep -q '^Mock OAuth token endpoint' "$MOCK_LOG" && break
+  sleep 1
+done
+
+echo ""
+echo "1. Mock token endpoint:"
+USED_TOKEN="sk-ant-ort01-test-$(openssl rand -hex 8)"
+grant() {
+  curl -s -X POST "$MOCK_URL" -H "Content-Type: application/json" \
+    -d "{\"grant_type\": \"refresh_token\", \"refresh_token\": \"$1\"}" "${@:2}"
+}
+check "refresh grant" 200 "$(grant "$USED_TOKEN" -o /dev/null -w '%{http_code}')"
+check "reused refresh token" invalid_grant "$(grant "$USED_TOKEN" | jq -r '.error')"
+check "other grant types" 400 "$(status -X POST "$MOCK_URL" -H "Content-Type: application/json" -d '{"grant_type": "password"}')"
+
+echo ""
+echo "2. Worker refresh:"
+if ! curl -sf "http://localhost:$PORT/health" > /dev/null; then
+  echo "- skipped: no Worker on port $PORT (start it with npm run dev)"
+elif ! grep -q "^OAUTH_TOKEN_URL=[\"']\?$MOCK_URL" .dev.vars; then
+  echo "- skipped: set OAUTH_TOKEN_URL=$MOCK_URL in .dev.vars and restart the Worker"
+else
+  API_KEY=$(grep -E '^(WORKER_API_KEY|API_KEY)=' .dev.vars | head -1 | cut -d= -f2 | tr -d "'\"")
+  ADMIN="http://localhost:$PORT/admin/credentials"
+  NOW_MS=$(($(date +%s) * 1000))
+
+  # An expired token whose refresh token the mock already rotated out, so the
+  # alarm this schedules fails and the token stays expired
+  curl -s -o /dev/null -X PUT "$ADMIN" -H "x-api-key: $API_KEY" -H "Content-Type: application/json" \
+    -d "{\"accessToken\": \"sk-ant-oat01-expired\", \"refreshToken\": \"$USED_TOKEN\", \"expiresAt\": $((NOW_MS - 1000))}"
+  sleep 2
+
+  BEFORE=$(token_requests)
+  for _ in 1 2 3; do
+    HEALTH=$(curl -s "http://localhost:$PORT/health")
+  done
+  check "health treats the token as expired" true "$(echo "$HEALTH" | jq '.authMode != "subscription"')"
+  check "health makes no token requests" "$BEFORE" "$(token_requests)"
+
+  # A valid pair far from expiry, so only the explicit refresh below rotates it
+  curl -s -o /dev/null -X PUT "$ADMIN" -H "x-api-key: $API_KEY" -H "Content-Type: application/json" \
+    -d "{\"accessToken\": \"sk-ant-oat01-current\", \"refreshToken\": \"sk-ant-ort01-test-$(openssl rand -hex 8)\", \"expiresAt\": $((NOW_MS + 3600000))}"
+  UPDATED=$(curl -s "$ADMIN" -H "x-api-key: $API_KEY" | jq -r '.updatedAt')
+  sleep 1
+
+  BEFORE=$(token_requests)
+  check "admin refresh" true "$(curl -s -X POST "$ADMIN/refresh" -H "x-api-key: $API_KEY" | jq -r '.success')"
+  check "admin refresh calls the token endpoint" "$((BEFORE + 1))" "$(token_requests)"
+  check "rotated tokens are stored" true "$(curl -s "$ADMIN" -H "x-api-key: $API_KEY" | jq --arg before "$UPDATED" '.updatedAt != $before')"
+fi
+
+echo ""
+if [ "$FAILED" = 0 ]; then
+  echo "✓ All checks passed"
+else
+  echo "✗ Some checks failed"
+  exit 1
+fi
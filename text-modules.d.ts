@@ -0,0 +1,5 @@
+// Text files imported by the Worker are bundled as strings (wrangler's default rule for *.txt)
+declare module "*.txt" {
+  const content: string;
+  export default content;
+}